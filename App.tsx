@@ -1,9 +1,43 @@
-import React, { useState, useEffect, useRef, useMemo, useLayoutEffect } from 'react';
-import { Play, Pause, Square, Settings as SettingsIcon, Timer, ZoomIn, MoveVertical, Activity } from 'lucide-react';
-import { AppSettings, NoteEvent, DEFAULT_THEME, ThemePalette } from './types';
-import { parseMidi, generateMockNotes, generateThemeFromImage, getHexLuminance } from './utils';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Play, Pause, Square, Settings as SettingsIcon, Timer, ZoomIn, MoveVertical, Activity, Film, X, Repeat, Wand2, Save, FolderOpen } from 'lucide-react';
+import { AnalysisView, AppSettings, ImportKind, ImportReport, ImportResult, LayoutPanel, MidiDocument, NamedTheme, NoteStyles, DEFAULT_SETTINGS, DEFAULT_THEME, Project, ProjectFile, ThemePalette, StereoAnalysers, LoopRegion, AlignmentResult } from './types';
+import { generateMockNotes, generateStressNotes, createMidiDocument, getTrackRows, getNoteName, PIANO_MIN_NOTE, PIANO_MAX_NOTE, applyTrackSettings, getHexLuminance, loadImage, getMidiRange, isLoopActive, wrapLoopTime } from './utils';
+import { getPianoRollViewport, NOTE_STYLE_PRESETS, canRenderInWorker } from './pianoRoll';
+import { extractPalettes, getContrastRatio, getMinTrackContrast } from './palette';
+import { getScopeSync } from './scope';
+import { exportVideo, downloadBlob } from './videoExport';
+import { COVER_GLOW_OPACITY, getCompositionDuration } from './composition';
+import { ASPECT_RATIOS, getFrameSize, getLayoutPanels, getPanelCanvasSize } from './layout';
+import { getCoverMotion, getTitleOpacity } from './reactive';
+import { TEXT_FONTS, getCaptionBlock, getCreditsBlock, loadTextFont } from './text';
+import { getLyricBlock, getMidiLyricLines, getSectionMarkers, parseLyricsFile } from './lyrics';
+import { detectFileKind, importAudio, importImage, importMidi, importNotes, importScore } from './importer';
+import { autoAlign } from './alignment';
+import { renderMidiAudio } from './synth';
+import { getTintinnabuliAnalysis, getVoiceOptions } from './tintinnabuli';
+import { serializeProject, parseProject, saveAutosave, loadAutosave, PROJECT_EXTENSION } from './project';
 import PianoRoll from './components/PianoRoll';
 import Oscilloscope from './components/Oscilloscope';
+import Spectrum from './components/Spectrum';
+import Spectrogram from './components/Spectrogram';
+import Timeline from './components/Timeline';
+import MidiInfo from './components/MidiInfo';
+import TrackList from './components/TrackList';
+import FpsMeter from './components/FpsMeter';
+import ThemeEditor from './components/ThemeEditor';
+import ThemeSwatch from './components/ThemeSwatch';
+import BackgroundLayers from './components/BackgroundLayers';
+import LayoutEditor from './components/LayoutEditor';
+import LayoutSettings from './components/LayoutSettings';
+import TextCanvas from './components/TextCanvas';
+import CaptionEditor from './components/CaptionEditor';
+import ImportStatus from './components/ImportStatus';
+
+// `?stress=N` replaces the demo notes with N generated ones (50,000 by default) and shows a frame-rate
+// meter, for profiling the piano roll. The session is neither restored nor autosaved in that mode.
+const stressParam = new URLSearchParams(window.location.search).get('stress');
+const STRESS_NOTES = stressParam === null ? 0 : Number(stressParam) || 50000;
+const MAX_IMPORT_REPORTS = 4;
 
 const App: React.FC = () => {
   // State
@@ -14,39 +48,79 @@ const App: React.FC = () => {
   
   const [audioContext, setAudioContext] = useState<AudioContext | null>(null);
   const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null);
+  const [synthBuffer, setSynthBuffer] = useState<AudioBuffer | null>(null);
+  const [isRenderingSynth, setIsRenderingSynth] = useState(false);
+  const [synthError, setSynthError] = useState<string | null>(null);
+  const [fontError, setFontError] = useState<string | null>(null);
   const [sourceNode, setSourceNode] = useState<AudioBufferSourceNode | null>(null);
   const [analyser, setAnalyser] = useState<AnalyserNode | null>(null);
+  const [splitter, setSplitter] = useState<ChannelSplitterNode | null>(null);
+  const [scopeAnalysers, setScopeAnalysers] = useState<StereoAnalysers | null>(null);
   
   const [currentTime, setCurrentTime] = useState(0);
   const [startTime, setStartTime] = useState(0);
   const [startOffset, setStartOffset] = useState(0);
+  const [loop, setLoop] = useState<LoopRegion>({ start: 0, end: 0, enabled: false });
   
-  const [notes, setNotes] = useState<NoteEvent[]>(generateMockNotes());
+  const [midi, setMidi] = useState<MidiDocument>(() => STRESS_NOTES > 0
+    ? createMidiDocument(generateStressNotes(STRESS_NOTES), 'Stress test')
+    : createMidiDocument(generateMockNotes()));
+  const notes = midi.notes;
   const [imageSrc, setImageSrc] = useState<string | null>(null);
+  // The files as loaded, so a project can store them again
+  const [midiFile, setMidiFile] = useState<ProjectFile | null>(null);
+  const [audioFile, setAudioFile] = useState<ProjectFile | null>(null);
+  const [coverFile, setCoverFile] = useState<ProjectFile | null>(null);
+  const [audioReference, setAudioReference] = useState<Project['audioReference']>(null);
   const [generatedTheme, setGeneratedTheme] = useState<ThemePalette>(DEFAULT_THEME);
+  const [themeCandidates, setThemeCandidates] = useState<NamedTheme[]>([]);
   
-  const [settings, setSettings] = useState<AppSettings>({
-    title: '',
-    offsetMs: 0,
-    themeMode: 'normal',
-    aspectRatio: '16:9',
-    themeBrightness: 100,
-    themeContrast: 100,
-    imageZoom: 1,
-    imageOffsetY: 0,
-    scopeLineWidth: 2
-  });
+  const [settings, setSettings] = useState<AppSettings>(DEFAULT_SETTINGS);
 
   const [showSettings, setShowSettings] = useState(false);
-  const titleRef = useRef<HTMLHeadingElement>(null);
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const exportAbortRef = useRef<AbortController | null>(null);
+  const [alignment, setAlignment] = useState<AlignmentResult | null>(null);
+  const [alignError, setAlignError] = useState<string | null>(null);
+  const [embedAudio, setEmbedAudio] = useState(true);
+  const [projectError, setProjectError] = useState<string | null>(null);
+  const [autosaveError, setAutosaveError] = useState<string | null>(null);
+  const [lyricsError, setLyricsError] = useState<string | null>(null);
+  const [importReports, setImportReports] = useState<ImportReport[]>([]);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+  const dragDepthRef = useRef(0);
+  const autosaveReadyRef = useRef(false);
+  const [isAligning, setIsAligning] = useState(false);
+  const [editingLayout, setEditingLayout] = useState(false);
   const reqIdRef = useRef<number | undefined>(undefined);
 
   // Derive active theme
   const activeTheme = useMemo(() => {
+    if (settings.themeMode === 'custom') return settings.customTheme;
     return settings.themeMode === 'image' ? generatedTheme : DEFAULT_THEME;
-  }, [settings.themeMode, generatedTheme]);
+  }, [settings.themeMode, settings.customTheme, generatedTheme]);
+
+  const frameSize = getFrameSize(settings.aspectRatio);
+  const isLandscape = frameSize.width > frameSize.height;
+  const layoutPanels = getLayoutPanels(settings);
+
+  const trackRows = useMemo(() => getTrackRows(midi), [midi]);
+  const viewport = useMemo(() => getPianoRollViewport(settings, midi), [settings, midi]);
+  const voiceOptions = useMemo(() => getVoiceOptions(settings, midi), [settings, midi]);
+  const voiceAnalysis = settings.showVoiceRoles ? getTintinnabuliAnalysis(midi) : null;
+  const voiceCounts = useMemo(() => {
+    if (!voiceAnalysis) return null;
+    let m = 0;
+    for (const r of voiceAnalysis.roles.values()) if (r.role === 'M') m++;
+    return { m, t: voiceAnalysis.roles.size - m };
+  }, [voiceAnalysis]);
+  const midiRange = useMemo(() => getMidiRange(notes, settings.offsetMs), [notes, settings.offsetMs]);
 
-  const isLandscape = settings.aspectRatio === '16:9';
+  const scopeSync = useMemo(
+    () => getScopeSync(settings, notes, currentTime + settings.offsetMs / 1000),
+    [settings, notes, currentTime]
+  );
 
   // Calculate UI contrast based on actual background behind the button
   const isDarkUI = useMemo(() => {
@@ -54,53 +128,87 @@ const App: React.FC = () => {
     return getHexLuminance(effectiveBg) < 128;
   }, [isLandscape, activeTheme.background]);
 
-  // Dynamically adjust title font size
-  useLayoutEffect(() => {
-    const el = titleRef.current;
-    if (!el || !settings.title) return;
-
-    let fontSize = settings.aspectRatio === '9:16' ? 3.2 : 4.5; 
-    el.style.fontSize = `${fontSize}rem`;
-
-    const parentWidth = el.parentElement?.clientWidth || window.innerWidth;
-    const tolerance = 40; 
-    
-    while (el.scrollWidth > parentWidth - tolerance && fontSize > 0.5) {
-      fontSize -= 0.1;
-      el.style.fontSize = `${fontSize}rem`;
-    }
-  }, [settings.title, settings.aspectRatio, showSettings]);
-
-  // Update theme extraction
+  // Update theme extraction: several candidate palettes per cover, the chosen one becomes the theme
   useEffect(() => {
     if (imageSrc) {
-      generateThemeFromImage(imageSrc, settings.themeBrightness, settings.themeContrast).then(setGeneratedTheme);
+      extractPalettes(imageSrc, settings.themeBrightness, settings.themeContrast).then(setThemeCandidates);
     }
   }, [imageSrc, settings.themeBrightness, settings.themeContrast]);
 
+  useEffect(() => {
+    const candidate = themeCandidates[settings.themeCandidate] ?? themeCandidates[0];
+    if (candidate) setGeneratedTheme(candidate.theme);
+  }, [themeCandidates, settings.themeCandidate]);
+
   // Init Audio Context
   useEffect(() => {
     const ctx = new (window.AudioContext || (window as any).webkitAudioContext)();
     const ana = ctx.createAnalyser();
     ana.fftSize = 2048;
+
+    // Per-channel analysis for the stereo scope modes
+    const split = ctx.createChannelSplitter(2);
+    const left = ctx.createAnalyser();
+    const right = ctx.createAnalyser();
+    left.fftSize = right.fftSize = 8192;
+    split.connect(left, 0);
+    split.connect(right, 1);
+
     setAudioContext(ctx);
     setAnalyser(ana);
+    setSplitter(split);
+    setScopeAnalysers({ left, right });
     return () => { ctx.close(); };
   }, []);
 
-  const updateTime = () => {
-    if (audioContext && isPlaying) {
-      const now = audioContext.currentTime;
-      const trackTime = (now - startTime) + startOffset;
-      setCurrentTime(trackTime);
-      reqIdRef.current = requestAnimationFrame(updateTime);
-    }
-  };
+  // Without a recording, the MIDI is rendered by the built-in synth and played in its place.
+  // Hidden or muted-by-solo tracks are left out, and re-rendering waits for edits to settle.
+  useEffect(() => {
+    if (audioBuffer) return;
+    let cancelled = false;
+    const timer = window.setTimeout(() => {
+      setIsRenderingSynth(true);
+      setSynthError(null);
+      renderMidiAudio(applyTrackSettings(notes, settings.tracks), settings.synthTimbre, settings.offsetMs)
+        .then(buffer => { if (!cancelled) setSynthBuffer(buffer); })
+        .catch(e => { if (!cancelled) setSynthError(`Synth rendering failed: ${e instanceof Error ? e.message : String(e)}`); })
+        .finally(() => { if (!cancelled) setIsRenderingSynth(false); });
+    }, 300);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [audioBuffer, notes, settings.tracks, settings.synthTimbre, settings.offsetMs]);
 
+  // Without its face the text is drawn in a fallback serif, in the preview and in exports alike
   useEffect(() => {
-    if (isPlaying) reqIdRef.current = requestAnimationFrame(updateTime);
-    else if (reqIdRef.current) cancelAnimationFrame(reqIdRef.current);
-  }, [isPlaying]);
+    let cancelled = false;
+    setFontError(null);
+    loadTextFont(settings.textFont).catch(e => { if (!cancelled) setFontError(e instanceof Error ? e.message : String(e)); });
+    return () => { cancelled = true; };
+  }, [settings.textFont]);
+
+  const playbackBuffer = audioBuffer ?? synthBuffer;
+  const duration = Math.max(playbackBuffer?.duration ?? 0, midiRange?.end ?? 0);
+
+  // Drive currentTime from the audio clock while playing
+  useEffect(() => {
+    if (!isPlaying || !audioContext) return;
+
+    const tick = () => {
+      const trackTime = wrapLoopTime((audioContext.currentTime - startTime) + startOffset, loop);
+      if (!isLoopActive(loop) && playbackBuffer && trackTime >= playbackBuffer.duration) {
+        setIsPlaying(false);
+        setStartOffset(playbackBuffer.duration);
+        setCurrentTime(playbackBuffer.duration);
+        return;
+      }
+      setCurrentTime(trackTime);
+      reqIdRef.current = requestAnimationFrame(tick);
+    };
+    reqIdRef.current = requestAnimationFrame(tick);
+
+    return () => {
+      if (reqIdRef.current) cancelAnimationFrame(reqIdRef.current);
+    };
+  }, [isPlaying, audioContext, playbackBuffer, startTime, startOffset, loop]);
 
   useEffect(() => {
     let timer: number;
@@ -113,25 +221,43 @@ const App: React.FC = () => {
     return () => clearTimeout(timer);
   }, [isCountingDown, countdown]);
 
-  const startPlayback = () => {
-    if (!audioContext || !audioBuffer || !analyser) return;
+  const stopSource = () => {
     if (sourceNode) { try { sourceNode.stop(); } catch(e) {} }
+    setSourceNode(null);
+  };
+
+  // (Re)starts the AudioBufferSourceNode at `offset`, honouring the loop region
+  const playFrom = (offset: number, loopRegion: LoopRegion = loop) => {
+    if (!audioContext || !playbackBuffer || !analyser || !splitter) return;
+    stopSource();
 
     const src = audioContext.createBufferSource();
-    src.buffer = audioBuffer;
+    src.buffer = playbackBuffer;
+    if (isLoopActive(loopRegion)) {
+      src.loop = true;
+      src.loopStart = loopRegion.start;
+      src.loopEnd = loopRegion.end;
+    }
     src.connect(analyser);
+    src.connect(splitter);
     analyser.connect(audioContext.destination);
-    src.start(0, startOffset);
+    src.start(0, offset);
     setSourceNode(src);
     setStartTime(audioContext.currentTime);
+    setStartOffset(offset);
+    setCurrentTime(offset);
     setIsPlaying(true);
   };
 
+  const startPlayback = () => {
+    playFrom(playbackBuffer && startOffset >= playbackBuffer.duration ? 0 : startOffset);
+  };
+
   const handlePlayPause = async () => {
     if (!audioContext) return;
     if (audioContext.state === 'suspended') await audioContext.resume();
     if (isPlaying) {
-      if (sourceNode) sourceNode.stop();
+      stopSource();
       setStartOffset(currentTime);
       setIsPlaying(false);
     } else {
@@ -139,6 +265,27 @@ const App: React.FC = () => {
     }
   };
 
+  const handleSeek = (time: number) => {
+    const target = Math.min(Math.max(0, time), duration);
+    if (isPlaying && playbackBuffer) {
+      playFrom(Math.min(target, playbackBuffer.duration));
+    } else {
+      setStartOffset(target);
+      setCurrentTime(target);
+    }
+  };
+
+  const handleLoopChange = (next: LoopRegion) => {
+    setLoop(next);
+    // A running source keeps its old loop points, so restart it from where we are
+    if (isPlaying) playFrom(currentTime, next);
+  };
+
+  // A running source keeps playing the buffer it started with, so pick up a re-rendered synth where we are
+  useEffect(() => {
+    if (isPlaying && synthBuffer && !audioBuffer) playFrom(Math.min(currentTime, synthBuffer.duration));
+  }, [synthBuffer]);
+
   const handleDelayedStart = () => {
     if (isPlaying) return;
     setCountdown(3);
@@ -148,25 +295,287 @@ const App: React.FC = () => {
   };
 
   const handleStop = () => {
-    if (sourceNode) { try { sourceNode.stop(); } catch(e) {} }
+    stopSource();
     setIsPlaying(false);
     setIsCountingDown(false);
     setStartOffset(0);
     setCurrentTime(0);
   };
 
+  // Keyboard shortcuts, read through a ref so the listener always sees the latest state
+  const shortcutRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  shortcutRef.current = (e: KeyboardEvent) => {
+    const target = e.target as HTMLElement | null;
+    if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+    if (e.metaKey || e.ctrlKey || e.altKey) return;
+
+    const step = e.shiftKey ? 1 : 5;
+    switch (e.key) {
+      case ' ': handlePlayPause(); break;
+      case 'ArrowLeft': handleSeek(currentTime - step); break;
+      case 'ArrowRight': handleSeek(currentTime + step); break;
+      case 'Home': handleSeek(0); break;
+      case 'End': handleSeek(duration); break;
+      case 'l': case 'L': handleLoopChange({ ...loop, enabled: !loop.enabled }); break;
+      case 'i': case 'I': handleLoopChange({ ...loop, start: currentTime, end: Math.max(loop.end, currentTime) }); break;
+      case 'o': case 'O': handleLoopChange({ ...loop, start: Math.min(loop.start, currentTime), end: currentTime }); break;
+      default: return;
+    }
+    e.preventDefault();
+  };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => shortcutRef.current(e);
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  const handleAutoAlign = async () => {
+    if (!audioBuffer || isAligning) return;
+    setIsAligning(true);
+    setAlignError(null);
+    try {
+      const result = await autoAlign(audioBuffer, notes);
+      setAlignment(result);
+      setSettings(prev => ({ ...prev, offsetMs: result.offsetMs }));
+    } catch (e) {
+      setAlignment(null);
+      setAlignError(`Auto-align failed: ${e instanceof Error ? e.message : String(e)}`);
+    } finally {
+      setIsAligning(false);
+    }
+  };
+
+  const handleExport = async () => {
+    if (exportProgress !== null) return;
+    if (isPlaying) handlePlayPause();
+
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+    setExportError(null);
+    setExportProgress(0);
+
+    try {
+      const coverImage = imageSrc ? await loadImage(imageSrc) : null;
+      const blob = await exportVideo(
+        { settings, theme: activeTheme, midi, audioBuffer: playbackBuffer, coverImage },
+        { format: settings.exportFormat, fps: settings.exportFps, onProgress: setExportProgress, signal: controller.signal }
+      );
+      const name = (settings.title || 'untitled').trim().replace(/[^\w\-]+/g, '_');
+      downloadBlob(blob, `${name}.${settings.exportFormat}`);
+    } catch (e) {
+      if (!controller.signal.aborted) setExportError(e instanceof Error ? e.message : String(e));
+    } finally {
+      exportAbortRef.current = null;
+      setExportProgress(null);
+    }
+  };
+
+  const setBackground = (patch: Partial<AppSettings['background']>) =>
+    setSettings({ ...settings, background: { ...settings.background, ...patch } });
+
+  const setReactions = (patch: Partial<AppSettings['reactions']>) =>
+    setSettings({ ...settings, reactions: { ...settings.reactions, ...patch } });
+
+  // Keeps the last few reports; problems open the settings panel so they aren't missed
+  const reportImport = (file: string, kind: ImportKind | null, result: Pick<ImportResult<unknown>, 'errors' | 'warnings'>) => {
+    setImportReports(prev => [{ file, kind, errors: result.errors, warnings: result.warnings }, ...prev].slice(0, MAX_IMPORT_REPORTS));
+    if (result.errors.length > 0 || result.warnings.length > 0) setShowSettings(true);
+  };
+
+  // Anything the importers didn't anticipate (an unreadable file, a parser bug) is reported like any other error
+  const reportImportFailure = (file: string, kind: ImportKind | null, e: unknown) =>
+    reportImport(file, kind, { errors: [e instanceof Error ? e.message : String(e)], warnings: [] });
+
+  const loadCoverFile = async (file: ProjectFile) => {
+    try {
+      const result = await importImage(file.data);
+      reportImport(file.name, 'image', result);
+      if (!result.value) return;
+      setImageSrc(result.value);
+      setCoverFile(file);
+      setSettings(prev => ({ ...prev, themeMode: 'image', themeCandidate: 0, imageZoom: 1, imageOffsetY: 0 }));
+    } catch (e) {
+      reportImportFailure(file.name, 'image', e);
+    }
+  };
+
   const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      const url = URL.createObjectURL(file);
-      setImageSrc(url);
-      setSettings(prev => ({ ...prev, themeMode: 'image', imageZoom: 1, imageOffsetY: 0 }));
+    if (file) await loadCoverFile({ name: file.name, type: file.type, data: file });
+  };
+
+  const handleLyricsFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const lyrics = parseLyricsFile(file.name, await file.text());
+      setSettings(prev => ({ ...prev, lyrics }));
+      setLyricsError(null);
+    } catch (err) {
+      setLyricsError(err instanceof Error ? err.message : String(err));
     }
   };
 
-  const dims = isLandscape 
-    ? { piano: { w: 1920, h: 1080 }, scope: { w: 800, h: 600 } } 
-    : { piano: { w: 1080, h: 1920 }, scope: { w: 1080, h: 600 } };
+  const loadAudioFile = async (file: ProjectFile) => {
+    if (!audioContext) {
+      reportImport(file.name, 'audio', { errors: ['Audio is not available in this browser'], warnings: [] });
+      return;
+    }
+    try {
+      const result = await importAudio(audioContext, file.data);
+      reportImport(file.name, 'audio', result);
+      if (!result.value) return;
+      setAudioBuffer(result.value);
+      setAudioFile(file);
+      setAudioReference(null);
+      handleStop();
+    } catch (e) {
+      reportImportFailure(file.name, 'audio', e);
+    }
+  };
+
+  // MIDI files and scores (MusicXML, ABC) both load as the MIDI document
+  const loadMidiFile = async (file: ProjectFile) => {
+    try {
+      const kind = await detectFileKind(file.data) === 'score' ? 'score' : 'midi';
+      const result = kind === 'score' ? await importScore(file.data) : await importMidi(file.data);
+      reportImport(file.name, kind, result);
+      if (!result.value) return;
+      setMidi(result.value);
+      setMidiFile(file);
+      setSettings(prev => ({ ...prev, tracks: { styles: {}, order: [] } }));
+    } catch (e) {
+      reportImportFailure(file.name, 'midi', e);
+    }
+  };
+
+  const getProject = (): Project => ({
+    settings,
+    generatedTheme,
+    midi: midiFile,
+    notes: midiFile ? null : notes,
+    cover: coverFile,
+    audio: audioFile,
+    audioReference
+  });
+
+  // Replaces the whole session with a saved project
+  const applyProject = async (project: Project) => {
+    // Read and decode everything first so a broken MIDI file, score or audio file leaves the current session untouched
+    const [imported, decoded] = await Promise.all([
+      project.midi ? importNotes(project.midi.data) : null,
+      project.audio && audioContext ? importAudio(audioContext, project.audio.data) : null
+    ]);
+    if (imported && !imported.value) throw new Error(imported.errors.join(' '));
+    if (decoded && !decoded.value) throw new Error(decoded.errors.join(' '));
+    const projectMidi = imported?.value ?? createMidiDocument(project.notes ?? generateMockNotes());
+    handleStop();
+    setSettings(project.settings);
+    setGeneratedTheme(project.generatedTheme);
+    setAlignment(null);
+    setAlignError(null);
+
+    setMidiFile(project.midi);
+    setMidi(projectMidi);
+
+    setCoverFile(project.cover);
+    setImageSrc(project.cover ? URL.createObjectURL(project.cover.data) : null);
+
+    setAudioFile(project.audio);
+    setAudioReference(project.audioReference);
+    setAudioBuffer(decoded?.value ?? null);
+  };
+
+  const handleSaveProject = async () => {
+    try {
+      setProjectError(null);
+      const blob = await serializeProject(getProject(), embedAudio);
+      const name = (settings.title || 'untitled').trim().replace(/[^\w\-]+/g, '_');
+      downloadBlob(blob, `${name}${PROJECT_EXTENSION}`);
+    } catch (e) {
+      setProjectError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const openProjectFile = async (file: Blob) => {
+    try {
+      setProjectError(null);
+      await applyProject(await parseProject(file));
+    } catch (err) {
+      setProjectError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) await openProjectFile(file);
+  };
+
+  // Files dropped anywhere on the page are routed by their contents, not their extension
+  const handleDroppedFiles = async (files: File[]) => {
+    for (const f of files) {
+      const file: ProjectFile = { name: f.name, type: f.type, data: f };
+      try {
+        const kind = await detectFileKind(f);
+        if (kind === 'midi' || kind === 'score') await loadMidiFile(file);
+        else if (kind === 'audio') await loadAudioFile(file);
+        else if (kind === 'image') await loadCoverFile(file);
+        else if (kind === 'project') {
+          await openProjectFile(f);
+          setShowSettings(true);
+        }
+        else reportImport(f.name, null, { errors: ['Unrecognised file: drop audio, MIDI, a score, an image or a project'], warnings: [] });
+      } catch (e) {
+        reportImportFailure(f.name, null, e);
+      }
+    }
+  };
+
+  const hasFiles = (e: React.DragEvent) => e.dataTransfer.types.includes('Files');
+
+  const handleDragEnter = (e: React.DragEvent) => {
+    if (!hasFiles(e)) return;
+    e.preventDefault();
+    dragDepthRef.current++;
+    setIsDraggingFile(true);
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!hasFiles(e)) return;
+    dragDepthRef.current = Math.max(0, dragDepthRef.current - 1);
+    if (dragDepthRef.current === 0) setIsDraggingFile(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!hasFiles(e)) return;
+    e.preventDefault();
+    dragDepthRef.current = 0;
+    setIsDraggingFile(false);
+    handleDroppedFiles(Array.from(e.dataTransfer.files));
+  };
+
+  // Restore the last session once audio can be decoded, then autosave every change after that
+  useEffect(() => {
+    if (!audioContext || autosaveReadyRef.current || STRESS_NOTES > 0) return;
+    loadAutosave()
+      .then(project => project && applyProject(project))
+      .catch(e => setAutosaveError(`Last session could not be restored: ${e instanceof Error ? e.message : String(e)}`))
+      .finally(() => { autosaveReadyRef.current = true; });
+  }, [audioContext]);
+
+  useEffect(() => {
+    if (!autosaveReadyRef.current) return;
+    const timer = window.setTimeout(() => {
+      // A failed save (a full IndexedDB quota, say) is shown until one succeeds again
+      saveAutosave(getProject())
+        .then(() => setAutosaveError(null))
+        .catch(e => setAutosaveError(`Autosave failed: ${e instanceof Error ? e.message : String(e)}`));
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [settings, generatedTheme, midiFile, notes, coverFile, audioFile, audioReference]);
 
   const visualizerContainerStyle: React.CSSProperties = {
     backgroundColor: activeTheme.background,
@@ -174,27 +583,127 @@ const App: React.FC = () => {
     flexDirection: 'column',
     overflow: 'hidden',
     boxShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.5)',
-    width: isLandscape ? '100vw' : 'calc(100vh * 9 / 16)',
-    height: isLandscape ? 'calc(100vw * 9 / 16)' : '100vh',
-    maxWidth: '100vw',
-    maxHeight: '100vh',
+    width: `min(100vw, calc(100vh * ${frameSize.width} / ${frameSize.height}))`,
+    height: `min(100vh, calc(100vw * ${frameSize.height} / ${frameSize.width}))`,
+    // Lets the title size itself in cqh, a fraction of the frame height like the export
+    containerType: 'size',
   };
 
+  // Same motion as the export; the easing would lag behind it, so it only applies while nothing moves
+  const coverMotion = getCoverMotion(settings.reactions, playbackBuffer, midi, currentTime, settings.offsetMs);
+  const isCoverMoving = settings.reactions.pulse > 0 || settings.reactions.kenBurns > 0;
   const coverImageStyle: React.CSSProperties = {
-    transform: `scale(${settings.imageZoom}) translateY(${settings.imageOffsetY}%)`,
-    transition: 'transform 0.15s ease-out',
+    transform: `translate(${coverMotion.x * 100}%, ${coverMotion.y * 100}%) scale(${coverMotion.scale}) scale(${settings.imageZoom}) translateY(${settings.imageOffsetY}%)`,
+    transition: isCoverMoving ? undefined : 'transform 0.15s ease-out',
     objectFit: 'cover'
   };
+  const coverGlowStyle: React.CSSProperties = {
+    background: `radial-gradient(closest-side, transparent 60%, ${activeTheme.tracks[0]})`,
+    opacity: coverMotion.glow * COVER_GLOW_OPACITY
+  };
+  const titleOpacity = getTitleOpacity(settings.reactions, currentTime, getCompositionDuration({ settings, midi, audioBuffer: playbackBuffer }));
+  const creditsBlock = useMemo(() => getCreditsBlock(settings, titleOpacity), [settings, titleOpacity]);
+  const captionBlock = getCaptionBlock(settings, currentTime);
+  const lyricBlock = getLyricBlock(settings, midi, currentTime);
+  const midiLyricCount = getMidiLyricLines(midi).length;
+  const markers = useMemo(() => settings.showMarkers ? getSectionMarkers(midi) : undefined, [midi, settings.showMarkers]);
+
+  const renderAnalysis = (view: AnalysisView, w: number, h: number) => {
+    const splitW = view === 'scope+spectrogram' ? w / 2 : w;
+    const oscilloscope = (
+      <Oscilloscope analysers={scopeAnalysers} audioBuffer={playbackBuffer} source={settings.scopeSource} mode={settings.scopeMode} sync={scopeSync} isPlaying={isPlaying} currentTime={currentTime} color={activeTheme.scope} backgroundColor={activeTheme.background} backgroundOpacity={settings.background.panelOpacity} width={splitW} height={h} lineWidth={settings.scopeLineWidth} />
+    );
+    const spectrogram = (
+      <Spectrogram analyser={analyser} audioBuffer={playbackBuffer} source={settings.scopeSource} isPlaying={isPlaying} currentTime={currentTime} color={activeTheme.scope} backgroundColor={activeTheme.background} backgroundOpacity={settings.background.panelOpacity} width={splitW} height={h} />
+    );
+
+    return view === 'spectrum' ? (
+      <Spectrum analyser={analyser} audioBuffer={playbackBuffer} source={settings.scopeSource} style={settings.spectrumStyle} isPlaying={isPlaying} currentTime={currentTime} color={activeTheme.scope} backgroundColor={activeTheme.background} backgroundOpacity={settings.background.panelOpacity} width={w} height={h} lineWidth={settings.scopeLineWidth} />
+    ) : view === 'spectrogram' ? spectrogram
+      : view === 'scope+spectrogram' ? (
+      <div className="flex flex-row w-full h-full">
+        <div className="flex-1 relative overflow-hidden">{oscilloscope}</div>
+        <div className="flex-1 relative overflow-hidden">{spectrogram}</div>
+      </div>
+    ) : oscilloscope;
+  };
+
+  const renderPanel = (panel: LayoutPanel, i: number) => {
+    const native = getPanelCanvasSize(panel, settings.aspectRatio);
+    const style: React.CSSProperties = { left: `${panel.x * 100}%`, top: `${panel.y * 100}%`, width: `${panel.w * 100}%`, height: `${panel.h * 100}%` };
+    const key = `${panel.kind}-${i}`;
+
+    switch (panel.kind) {
+      case 'title':
+        return (
+          <div key={key} className="absolute pointer-events-none" style={style}>
+            <TextCanvas block={creditsBlock} color={activeTheme.text} width={native.w} height={native.h} blend={panel.blend} />
+          </div>
+        );
+      case 'captions':
+        return (
+          <div key={key} className="absolute pointer-events-none" style={style}>
+            <TextCanvas block={captionBlock} color={activeTheme.text} width={native.w} height={native.h} />
+          </div>
+        );
+      case 'lyrics':
+        return (
+          <div key={key} className="absolute pointer-events-none" style={style}>
+            <TextCanvas block={lyricBlock} color={activeTheme.text} width={native.w} height={native.h} />
+          </div>
+        );
+      case 'cover':
+        return (
+          <div key={key} className="absolute overflow-hidden shadow-2xl border border-white/10 rounded-sm bg-stone-500/10" style={style}>
+            {imageSrc ? (
+              <>
+                <img src={imageSrc} alt="Cover" className="absolute inset-0 w-full h-full" style={coverImageStyle} />
+                <div className="absolute inset-0 pointer-events-none" style={coverGlowStyle} />
+              </>
+            ) : (
+              <div className="absolute inset-0 flex items-center justify-center opacity-10 font-serif text-lg italic text-center px-4" style={{ color: activeTheme.text }}>COVER</div>
+            )}
+          </div>
+        );
+      case 'piano':
+        return (
+          <div key={key} className="absolute overflow-hidden rounded-sm bg-black/5" style={style}>
+            <PianoRoll notes={notes} currentTime={currentTime + (settings.offsetMs/1000)} palette={activeTheme.tracks} backgroundColor={activeTheme.background} backgroundOpacity={settings.background.panelOpacity} width={native.w} height={native.h} beats={settings.showBeatGrid ? midi.beats : undefined} markers={markers} tracks={settings.tracks} viewport={viewport} keyboard={settings.showKeyboard} voices={voiceOptions} styles={settings.noteStyles} useWorker={settings.rollWorker} />
+          </div>
+        );
+      default:
+        return (
+          <div key={key} className="absolute overflow-hidden rounded-sm bg-black/5" style={style}>
+            {renderAnalysis(panel.kind === 'spectrogram' ? 'spectrogram' : settings.analysisView, native.w, native.h)}
+          </div>
+        );
+    }
+  };
 
   return (
-    <div className="w-full h-screen flex items-center justify-center overflow-hidden transition-colors duration-700 bg-stone-900" style={{ backgroundColor: isLandscape ? '#111' : activeTheme.background }}>
-      
+    <div
+      className="w-full h-screen flex items-center justify-center overflow-hidden transition-colors duration-700 bg-stone-900"
+      style={{ backgroundColor: isLandscape ? '#111' : activeTheme.background }}
+      onDragEnter={handleDragEnter}
+      onDragOver={(e) => { if (hasFiles(e)) e.preventDefault(); }}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+
+      {isDraggingFile && (
+        <div className="fixed inset-4 z-[90] flex items-center justify-center border-2 border-dashed border-white/60 rounded-lg bg-black/40 backdrop-blur-sm pointer-events-none">
+          <p className="text-white font-serif italic text-2xl">Drop audio, MIDI, a score, cover art or a project</p>
+        </div>
+      )}
+
       {isCountingDown && (
         <div className="fixed inset-0 z-[100] flex items-center justify-center bg-black/60 backdrop-blur-md">
           <div className="text-white text-9xl font-serif italic animate-pulse">{countdown}</div>
         </div>
       )}
 
+      {STRESS_NOTES > 0 && <FpsMeter label={`${notes.length.toLocaleString()} notes${settings.rollWorker ? ' · worker' : ''}`} />}
+
       {/* BOUTON PARAMÈTRES ADAPTATIF AVEC ZONE REACTIVE */}
       <div 
         className="absolute top-4 right-4 z-50 w-20 h-20 flex items-center justify-center" 
@@ -218,30 +727,79 @@ const App: React.FC = () => {
             <h2 className="text-xl italic mb-6 text-center border-b border-stone-300 pb-2">Settings</h2>
             
             <div className="space-y-6">
+              <div className="space-y-2">
+                <label className="text-[10px] uppercase tracking-[0.2em] text-stone-400 block text-center mb-1">Project</label>
+                <div className="flex gap-2">
+                  <button onClick={handleSaveProject} className="flex-1 flex items-center justify-center gap-1.5 py-1.5 bg-stone-100 hover:bg-stone-200 rounded text-[10px] uppercase tracking-wider transition-colors">
+                    <Save size={11}/> Save
+                  </button>
+                  <label className="flex-1 flex items-center justify-center gap-1.5 py-1.5 bg-stone-100 hover:bg-stone-200 rounded text-[10px] uppercase tracking-wider transition-colors cursor-pointer">
+                    <FolderOpen size={11}/> Open
+                    <input type="file" accept={`${PROJECT_EXTENSION},.zip`} onChange={handleOpenProject} className="hidden"/>
+                  </label>
+                </div>
+                <label className="flex items-center gap-2 text-[9px] uppercase tracking-widest text-stone-400 cursor-pointer">
+                  <input type="checkbox" checked={embedAudio} onChange={(e) => setEmbedAudio(e.target.checked)} className="accent-stone-800" />
+                  Embed audio in project file
+                </label>
+                {audioReference && !audioFile && (
+                  <p className="text-[9px] text-amber-700">Audio “{audioReference.name}” was not embedded — load it again below.</p>
+                )}
+                {projectError && <p className="text-[10px] text-red-700 text-center break-words">{projectError}</p>}
+                {autosaveError && <p className="text-[10px] text-red-700 text-center break-words">{autosaveError}</p>}
+              </div>
+
+              <hr className="border-stone-100"/>
+
               <div className="space-y-3">
                  <div>
                     <label className="text-[10px] uppercase tracking-[0.2em] text-stone-400 block mb-1">Audio</label>
                     <input type="file" accept="audio/*" onChange={(e) => {
                       const f = e.target.files?.[0];
-                      if(f && audioContext) f.arrayBuffer().then(b => audioContext.decodeAudioData(b)).then(d => { setAudioBuffer(d); handleStop(); });
+                      if(f) loadAudioFile({ name: f.name, type: f.type, data: f });
                     }} className="text-[10px] w-full file:mr-2 file:py-1 file:px-3 file:rounded-full file:border-0 file:bg-stone-100 file:text-stone-600"/>
+                    {!audioBuffer && (
+                      <div className="mt-2 space-y-1">
+                        <div className="flex justify-between text-[9px] uppercase tracking-widest text-stone-400">
+                          <span>Synth (no audio loaded)</span>
+                          {isRenderingSynth && <span className="normal-case italic tracking-normal">Rendering…</span>}
+                        </div>
+                        <div className="grid grid-cols-3 gap-1 p-1 bg-stone-100 rounded-lg">
+                          {([['bell', 'Bell'], ['piano', 'Soft piano'], ['organ', 'Organ']] as const).map(([timbre, label]) => (
+                            <button key={timbre} onClick={() => setSettings({...settings, synthTimbre: timbre})} className={`py-1 rounded-md text-[10px] tracking-wider transition-all ${settings.synthTimbre === timbre ? 'bg-white shadow-sm text-black' : 'text-stone-400'}`}>{label}</button>
+                          ))}
+                        </div>
+                        {synthError && <p className="text-[10px] text-red-700">{synthError}</p>}
+                      </div>
+                    )}
                  </div>
                  <div>
-                    <label className="text-[10px] uppercase tracking-[0.2em] text-stone-400 block mb-1">MIDI</label>
-                    <input type="file" accept=".mid,.midi" onChange={(e) => {
+                    <label className="text-[10px] uppercase tracking-[0.2em] text-stone-400 block mb-1">MIDI or Score</label>
+                    <input type="file" accept=".mid,.midi,.kar,.rmi,.musicxml,.mxl,.xml,.abc" onChange={(e) => {
                       const f = e.target.files?.[0];
-                      if(f) f.arrayBuffer().then(b => setNotes(parseMidi(b)));
+                      if(f) loadMidiFile({ name: f.name, type: f.type, data: f });
                     }} className="text-[10px] w-full file:mr-2 file:py-1 file:px-3 file:rounded-full file:border-0 file:bg-stone-100 file:text-stone-600"/>
+                    <MidiInfo midi={midi} />
+                    <label className="flex items-center gap-2 mt-2 text-[9px] uppercase tracking-widest text-stone-400 cursor-pointer">
+                      <input type="checkbox" checked={settings.showBeatGrid} onChange={(e) => setSettings({...settings, showBeatGrid: e.target.checked})} className="accent-stone-800" />
+                      Bar / beat grid
+                    </label>
                  </div>
                  <div>
                     <label className="text-[10px] uppercase tracking-[0.2em] text-stone-400 block mb-1">Cover Art (1:1)</label>
                     <input type="file" accept="image/*" onChange={handleImageUpload} className="text-[10px] w-full file:mr-2 file:py-1 file:px-3 file:rounded-full file:border-0 file:bg-stone-100 file:text-stone-600"/>
                  </div>
+                 <ImportStatus reports={importReports} onDismiss={() => setImportReports([])} />
                  
                  <div>
                     <div className="flex justify-between items-center mb-1">
                        <label className="text-[10px] uppercase tracking-[0.2em] text-stone-400">Sync Offset</label>
-                       <span className="text-[9px] font-mono text-stone-500">{settings.offsetMs > 0 ? '+' : ''}{settings.offsetMs}ms</span>
+                       <div className="flex items-center gap-2">
+                         <button onClick={handleAutoAlign} disabled={!audioBuffer || isAligning} className="flex items-center gap-1 text-[9px] uppercase tracking-wider text-stone-500 hover:text-black disabled:opacity-30">
+                           <Wand2 size={10}/> {isAligning ? 'Aligning…' : 'Auto-align'}
+                         </button>
+                         <span className="text-[9px] font-mono text-stone-500">{settings.offsetMs > 0 ? '+' : ''}{settings.offsetMs}ms</span>
+                       </div>
                     </div>
                     <input 
                       type="range" 
@@ -252,14 +810,73 @@ const App: React.FC = () => {
                       onChange={(e) => setSettings({...settings, offsetMs: Number(e.target.value)})} 
                       className="w-full accent-stone-800 h-1 bg-stone-200 rounded-lg appearance-none cursor-pointer" 
                     />
+                    {alignment && (
+                      <p className={`text-[9px] mt-1 text-center ${alignment.ambiguous ? 'text-amber-600' : 'text-stone-400'}`}>
+                        Best match {alignment.offsetMs > 0 ? '+' : ''}{alignment.offsetMs}ms · confidence {Math.round(alignment.confidence * 100)}%
+                        {alignment.ambiguous && ' — ambiguous, check by ear'}
+                      </p>
+                    )}
+                    {alignError && <p className="text-[10px] mt-1 text-red-700 text-center">{alignError}</p>}
                  </div>
               </div>
 
+              {trackRows.length > 0 && (
+                <div className="space-y-2 border-t border-stone-100 pt-4">
+                  <label className="text-[10px] uppercase tracking-[0.2em] text-stone-400 block text-center mb-1">Tracks</label>
+                  <TrackList rows={trackRows} tracks={settings.tracks} palette={activeTheme.tracks} onChange={(tracks) => setSettings({...settings, tracks})} />
+                </div>
+              )}
+
               <hr className="border-stone-100"/>
 
               <div>
                 <label className="text-[10px] uppercase tracking-[0.2em] text-stone-400 block mb-1">Title</label>
-                <input type="text" value={settings.title} onChange={(e) => setSettings({...settings, title: e.target.value})} placeholder="Title" className="w-full bg-transparent border-b border-stone-200 p-1 focus:outline-none font-serif text-lg text-center" />
+                <textarea rows={Math.min(3, settings.title.split('\n').length)} value={settings.title} onChange={(e) => setSettings({...settings, title: e.target.value})} placeholder="Title" className="w-full bg-transparent border-b border-stone-200 p-1 focus:outline-none font-serif text-lg text-center resize-none" />
+                <div className="grid grid-cols-2 gap-x-3">
+                  {([
+                    ['subtitle', 'Subtitle'],
+                    ['composer', 'Composer'],
+                    ['opus', 'Opus / Movement'],
+                    ['performer', 'Performer']
+                  ] as const).map(([key, label]) => (
+                    <input key={key} type="text" value={settings[key]} onChange={(e) => setSettings({...settings, [key]: e.target.value})} placeholder={label} className="w-full min-w-0 bg-transparent border-b border-stone-200 p-1 text-xs focus:outline-none" />
+                  ))}
+                </div>
+                <div className="flex gap-1 p-1 mt-3 bg-stone-100 rounded-lg">
+                  {(Object.keys(TEXT_FONTS) as (keyof typeof TEXT_FONTS)[]).map(font => (
+                    <button key={font} onClick={() => setSettings({...settings, textFont: font})} className={`flex-1 py-1 rounded-md text-[10px] transition-all ${settings.textFont === font ? 'bg-white shadow-sm text-black' : 'text-stone-400'}`} style={{ fontFamily: TEXT_FONTS[font].family }}>{TEXT_FONTS[font].label}</button>
+                  ))}
+                </div>
+                {fontError && <p className="text-[10px] text-red-700 text-center">{fontError}</p>}
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-[10px] uppercase tracking-[0.2em] text-stone-400 block text-center mb-1">Captions</label>
+                <CaptionEditor captions={settings.captions} currentTime={currentTime} onChange={(captions) => setSettings({...settings, captions})} onSeek={handleSeek} />
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-[10px] uppercase tracking-[0.2em] text-stone-400 block text-center mb-1">Lyrics</label>
+                <input type="file" accept=".lrc,.srt" onChange={handleLyricsFile} className="text-[10px] w-full file:mr-2 file:py-1 file:px-3 file:rounded-full file:border-0 file:bg-stone-100 file:text-stone-600"/>
+                {settings.lyrics.length > 0 ? (
+                  <div className="flex justify-between items-center text-[9px] uppercase tracking-widest text-stone-400">
+                    <span>{settings.lyrics.length} imported lines</span>
+                    <button onClick={() => setSettings({...settings, lyrics: []})} className="px-2 py-0.5 bg-stone-100 hover:bg-stone-200 rounded text-[9px] uppercase tracking-wider transition-colors">Clear</button>
+                  </div>
+                ) : (
+                  <p className="text-[9px] uppercase tracking-widest text-stone-400">
+                    {midiLyricCount} MIDI lyric lines · {getSectionMarkers(midi).length} markers
+                  </p>
+                )}
+                {lyricsError && <p className="text-[10px] text-red-700 break-words">{lyricsError}</p>}
+                <label className="flex items-center gap-2 text-[9px] uppercase tracking-widest text-stone-400 cursor-pointer">
+                  <input type="checkbox" checked={settings.showLyrics} onChange={(e) => setSettings({...settings, showLyrics: e.target.checked})} className="accent-stone-800" />
+                  Show lyrics
+                </label>
+                <label className="flex items-center gap-2 text-[9px] uppercase tracking-widest text-stone-400 cursor-pointer">
+                  <input type="checkbox" checked={settings.showMarkers} onChange={(e) => setSettings({...settings, showMarkers: e.target.checked})} className="accent-stone-800" />
+                  Section markers on piano roll
+                </label>
               </div>
 
               <div className="space-y-4">
@@ -268,6 +885,8 @@ const App: React.FC = () => {
                   <div className="flex gap-2 p-1 bg-stone-100 rounded-lg">
                     <button onClick={() => setSettings({...settings, themeMode: 'normal'})} className={`flex-1 py-1 rounded-md text-xs transition-all ${settings.themeMode === 'normal' ? 'bg-white shadow-sm text-black' : 'text-stone-400'}`}>Default</button>
                     <button onClick={() => setSettings({...settings, themeMode: 'image'})} className={`flex-1 py-1 rounded-md text-xs transition-all ${settings.themeMode === 'image' ? 'bg-white shadow-sm text-black' : 'text-stone-400'}`} disabled={!imageSrc}>From Cover</button>
+                    {/* Editing starts from whatever theme is showing */}
+                    <button onClick={() => settings.themeMode !== 'custom' && setSettings({...settings, themeMode: 'custom', customTheme: activeTheme})} className={`flex-1 py-1 rounded-md text-xs transition-all ${settings.themeMode === 'custom' ? 'bg-white shadow-sm text-black' : 'text-stone-400'}`}>Custom</button>
                   </div>
                 </div>
 
@@ -281,18 +900,243 @@ const App: React.FC = () => {
                         <label className="text-[9px] uppercase tracking-widest text-stone-400 block">Contrast</label>
                         <input type="range" min="0" max="200" value={settings.themeContrast} onChange={(e) => setSettings({...settings, themeContrast: Number(e.target.value)})} className="w-full accent-stone-800" />
                       </div>
+                      {themeCandidates.length > 0 && (
+                        <div className="col-span-2 grid grid-cols-2 gap-1 p-1 bg-stone-100 rounded-lg">
+                          {themeCandidates.map((candidate, i) => {
+                            const selected = i === Math.min(settings.themeCandidate, themeCandidates.length - 1);
+                            return (
+                              <button key={candidate.name} onClick={() => setSettings({...settings, themeCandidate: i})} className={`flex items-center gap-2 p-1.5 rounded-md transition-all ${selected ? 'bg-white shadow-sm text-black' : 'text-stone-400 hover:text-stone-600'}`}>
+                                <ThemeSwatch theme={candidate.theme} className="w-10 h-6" />
+                                <span className="flex flex-col items-start leading-tight">
+                                  <span className="text-[10px] tracking-wider">{candidate.name}</span>
+                                  {/* Lowest contrast of text and notes against the background */}
+                                  <span className="font-mono text-[8px]">Aa {getContrastRatio(candidate.theme.text, candidate.theme.background).toFixed(1)} · ♪ {getMinTrackContrast(candidate.theme).toFixed(1)}</span>
+                                </span>
+                              </button>
+                            );
+                          })}
+                        </div>
+                      )}
                   </div>
                 )}
+
+                {settings.themeMode === 'custom' && (
+                  <div className="animate-in fade-in slide-in-from-top-1">
+                    <ThemeEditor theme={settings.customTheme} onChange={(customTheme) => setSettings({...settings, customTheme})} />
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-3 border-t border-stone-100 pt-4">
+                  <label className="text-[10px] uppercase tracking-[0.2em] text-stone-400 block text-center mb-1">Background</label>
+                  <div className="flex gap-2 p-1 bg-stone-100 rounded-lg">
+                    {([['none', 'Flat'], ['linear', 'Linear'], ['radial', 'Radial']] as const).map(([gradient, label]) => (
+                      <button key={gradient} onClick={() => setBackground({ gradient })} className={`flex-1 py-1 rounded-md text-xs transition-all ${settings.background.gradient === gradient ? 'bg-white shadow-sm text-black' : 'text-stone-400'}`}>{label}</button>
+                    ))}
+                  </div>
+                  <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+                    {([
+                      ['cover', 'Cover', 1, !imageSrc],
+                      ['blur', 'Blur', 80, !imageSrc || settings.background.cover === 0],
+                      ['gradientStrength', 'Gradient', 1, settings.background.gradient === 'none'],
+                      ['noise', 'Noise', 1, false],
+                      ['grain', 'Grain', 1, false],
+                      ['vignette', 'Vignette', 1, false],
+                      ['panelOpacity', 'Panels', 1, false]
+                    ] as const).map(([key, label, max, disabled]) => (
+                      <div key={key} className={`space-y-1 ${disabled ? 'opacity-40' : ''}`}>
+                        <div className="flex justify-between text-[9px] uppercase tracking-widest text-stone-400">
+                          <span>{label}</span>
+                          <span className="font-mono normal-case">{max === 1 ? `${Math.round(settings.background[key] * 100)}%` : `${settings.background[key]}px`}</span>
+                        </div>
+                        <input type="range" min="0" max={max} step={max === 1 ? 0.01 : 1} value={settings.background[key]} disabled={disabled} onChange={(e) => setBackground({ [key]: Number(e.target.value) })} className="w-full accent-stone-800" />
+                      </div>
+                    ))}
+                  </div>
+              </div>
+
+              <div className="space-y-3 border-t border-stone-100 pt-4">
+                  <label className="text-[10px] uppercase tracking-[0.2em] text-stone-400 block text-center mb-1">Motion</label>
+                  <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+                    {([
+                      ['pulse', 'Pulse', 1, !imageSrc],
+                      ['glow', 'Melody Glow', 1, !imageSrc],
+                      ['kenBurns', 'Ken Burns', 1, !imageSrc],
+                      ['titleFade', 'Title Fade', 5, false]
+                    ] as const).map(([key, label, max, disabled]) => (
+                      <div key={key} className={`space-y-1 ${disabled ? 'opacity-40' : ''}`}>
+                        <div className="flex justify-between text-[9px] uppercase tracking-widest text-stone-400">
+                          <span>{label}</span>
+                          <span className="font-mono normal-case">{max === 1 ? `${Math.round(settings.reactions[key] * 100)}%` : `${settings.reactions[key].toFixed(1)}s`}</span>
+                        </div>
+                        <input type="range" min="0" max={max} step={max === 1 ? 0.01 : 0.1} value={settings.reactions[key]} disabled={disabled} onChange={(e) => setReactions({ [key]: Number(e.target.value) })} className="w-full accent-stone-800" />
+                      </div>
+                    ))}
+                  </div>
+              </div>
+
+              <div className="space-y-4 border-t border-stone-100 pt-4">
+                  <label className="text-[10px] uppercase tracking-[0.2em] text-stone-400 block text-center mb-1">Piano Roll</label>
+                  <div className="flex gap-2 p-1 bg-stone-100 rounded-lg">
+                    <button onClick={() => setSettings({...settings, rollOrientation: 'horizontal'})} className={`flex-1 py-1 rounded-md text-xs transition-all ${settings.rollOrientation === 'horizontal' ? 'bg-white shadow-sm text-black' : 'text-stone-400'}`}>Scrolling</button>
+                    <button onClick={() => setSettings({...settings, rollOrientation: 'falling'})} className={`flex-1 py-1 rounded-md text-xs transition-all ${settings.rollOrientation === 'falling' ? 'bg-white shadow-sm text-black' : 'text-stone-400'}`}>Falling</button>
+                  </div>
+                  <div className="space-y-1">
+                      <div className="flex justify-between items-center text-[9px] uppercase tracking-widest text-stone-400">
+                        <div className="flex gap-2">
+                          {(['seconds', 'bars'] as const).map(unit => (
+                            <button key={unit} onClick={() => setSettings({...settings, rollWindowUnit: unit})} className={`uppercase tracking-widest ${settings.rollWindowUnit === unit ? 'text-black' : 'text-stone-400 hover:text-stone-600'}`}>{unit}</button>
+                          ))}
+                        </div>
+                        <span className="font-mono normal-case">
+                          {settings.rollWindowUnit === 'bars' ? `${settings.rollWindowBars} bars` : `${settings.rollWindowSeconds}s`}
+                        </span>
+                      </div>
+                      {settings.rollWindowUnit === 'bars' ? (
+                        <input type="range" min="1" max="16" step="1" value={settings.rollWindowBars} onChange={(e) => setSettings({...settings, rollWindowBars: Number(e.target.value)})} className="w-full accent-stone-800" />
+                      ) : (
+                        <input type="range" min="2" max="30" step="0.5" value={settings.rollWindowSeconds} onChange={(e) => setSettings({...settings, rollWindowSeconds: Number(e.target.value)})} className="w-full accent-stone-800" />
+                      )}
+                  </div>
+                  <div className="space-y-1">
+                      <div className="flex justify-between items-center text-[9px] uppercase tracking-widest text-stone-400">
+                        <span>Playhead</span>
+                        <span className="font-mono normal-case">{Math.round(settings.rollPlayhead * 100)}%</span>
+                      </div>
+                      <input type="range" min="0" max="0.9" step="0.01" value={settings.rollPlayhead} onChange={(e) => setSettings({...settings, rollPlayhead: Number(e.target.value)})} className="w-full accent-stone-800" />
+                  </div>
+                  <div className="flex gap-1 p-1 bg-stone-100 rounded-lg">
+                    {([['full', '88 Keys'], ['fit', 'Fit Notes'], ['custom', 'Custom']] as const).map(([range, label]) => (
+                      <button key={range} onClick={() => setSettings({...settings, rollKeyRange: range})} className={`flex-1 py-1 rounded-md text-[10px] tracking-wider transition-all ${settings.rollKeyRange === range ? 'bg-white shadow-sm text-black' : 'text-stone-400'}`}>{label}</button>
+                    ))}
+                  </div>
+                  {settings.rollKeyRange === 'custom' && (
+                    <div className="grid grid-cols-2 gap-4 animate-in fade-in slide-in-from-top-1">
+                      <div className="space-y-1">
+                        <div className="flex justify-between text-[9px] uppercase tracking-widest text-stone-400">
+                          <span>Low</span><span className="font-mono normal-case">{getNoteName(settings.rollMinNote)}</span>
+                        </div>
+                        <input type="range" min={PIANO_MIN_NOTE} max={PIANO_MAX_NOTE} step="1" value={settings.rollMinNote} onChange={(e) => setSettings({...settings, rollMinNote: Number(e.target.value)})} className="w-full accent-stone-800" />
+                      </div>
+                      <div className="space-y-1">
+                        <div className="flex justify-between text-[9px] uppercase tracking-widest text-stone-400">
+                          <span>High</span><span className="font-mono normal-case">{getNoteName(settings.rollMaxNote)}</span>
+                        </div>
+                        <input type="range" min={PIANO_MIN_NOTE} max={PIANO_MAX_NOTE} step="1" value={settings.rollMaxNote} onChange={(e) => setSettings({...settings, rollMaxNote: Number(e.target.value)})} className="w-full accent-stone-800" />
+                      </div>
+                    </div>
+                  )}
+                  {settings.rollKeyRange === 'fit' && (
+                    <p className="text-[9px] font-mono text-stone-500 text-center">{getNoteName(viewport.minNote)} – {getNoteName(viewport.maxNote)}</p>
+                  )}
+                  <label className="flex items-center gap-2 text-[9px] uppercase tracking-widest text-stone-400 cursor-pointer">
+                    <input type="checkbox" checked={settings.showKeyboard} onChange={(e) => setSettings({...settings, showKeyboard: e.target.checked})} className="accent-stone-800" />
+                    Keyboard
+                  </label>
+                  <label className={`flex items-center gap-2 text-[9px] uppercase tracking-widest text-stone-400 ${canRenderInWorker() ? 'cursor-pointer' : 'opacity-50'}`}>
+                    <input type="checkbox" checked={settings.rollWorker && canRenderInWorker()} disabled={!canRenderInWorker()} onChange={(e) => setSettings({...settings, rollWorker: e.target.checked})} className="accent-stone-800" />
+                    Render in background thread
+                  </label>
+              </div>
+
+              <div className="space-y-2 border-t border-stone-100 pt-4">
+                  <label className="text-[10px] uppercase tracking-[0.2em] text-stone-400 block text-center mb-1">Note Style</label>
+                  <div className="flex flex-wrap gap-1 p-1 bg-stone-100 rounded-lg">
+                    {NOTE_STYLE_PRESETS.map(preset => {
+                      const selected = (Object.keys(preset.styles) as (keyof NoteStyles)[]).every(k => preset.styles[k] === settings.noteStyles[k]);
+                      return (
+                        <button key={preset.name} onClick={() => setSettings({...settings, noteStyles: preset.styles})} className={`flex-1 px-2 py-1 rounded-md text-[10px] tracking-wider transition-all ${selected ? 'bg-white shadow-sm text-black' : 'text-stone-400'}`}>{preset.name}</button>
+                      );
+                    })}
+                  </div>
+                  <div className="grid grid-cols-2 gap-x-4 gap-y-1">
+                    {([['velocity', 'Velocity'], ['ripples', 'Ripples'], ['trails', 'Trails'], ['connections', 'Connections']] as const).map(([key, label]) => (
+                      <label key={key} className="flex items-center gap-2 text-[9px] uppercase tracking-widest text-stone-400 cursor-pointer">
+                        <input type="checkbox" checked={settings.noteStyles[key]} onChange={(e) => setSettings({...settings, noteStyles: {...settings.noteStyles, [key]: e.target.checked}})} className="accent-stone-800" />
+                        {label}
+                      </label>
+                    ))}
+                  </div>
+              </div>
+
+              <div className="space-y-2 border-t border-stone-100 pt-4">
+                  <label className="text-[10px] uppercase tracking-[0.2em] text-stone-400 block text-center mb-1">Tintinnabuli</label>
+                  <label className="flex items-center gap-2 text-[9px] uppercase tracking-widest text-stone-400 cursor-pointer">
+                    <input type="checkbox" checked={settings.showVoiceRoles} onChange={(e) => setSettings({...settings, showVoiceRoles: e.target.checked})} className="accent-stone-800" />
+                    Highlight M / T voices
+                  </label>
+                  {voiceAnalysis && voiceCounts && (
+                    <div className="space-y-2 animate-in fade-in slide-in-from-top-1">
+                      <p className="text-[9px] font-mono text-stone-500">
+                        {voiceAnalysis.triad.name} triad ({voiceAnalysis.triad.source}) · {voiceCounts.m} M / {voiceCounts.t} T
+                      </p>
+                      <div className="flex gap-4">
+                        <label className="flex items-center gap-2 text-[9px] uppercase tracking-widest text-stone-400 cursor-pointer">
+                          <input type="checkbox" checked={settings.showVoicePositions} onChange={(e) => setSettings({...settings, showVoicePositions: e.target.checked})} className="accent-stone-800" />
+                          Positions
+                        </label>
+                        <label className="flex items-center gap-2 text-[9px] uppercase tracking-widest text-stone-400 cursor-pointer">
+                          <input type="checkbox" checked={settings.showVoiceLegend} onChange={(e) => setSettings({...settings, showVoiceLegend: e.target.checked})} className="accent-stone-800" />
+                          Legend
+                        </label>
+                      </div>
+                    </div>
+                  )}
               </div>
 
               <div className="space-y-4 border-t border-stone-100 pt-4">
                   <label className="text-[10px] uppercase tracking-[0.2em] text-stone-400 block text-center mb-1">Oscilloscope Style</label>
+                  <div className="grid grid-cols-4 gap-1 p-1 bg-stone-100 rounded-lg">
+                    {([['scope', 'Scope'], ['spectrum', 'Spectrum'], ['spectrogram', 'Sonogram'], ['scope+spectrogram', 'Both']] as const).map(([view, label]) => (
+                      <button key={view} onClick={() => setSettings({...settings, analysisView: view})} className={`py-1 rounded-md text-[10px] tracking-wider transition-all ${settings.analysisView === view ? 'bg-white shadow-sm text-black' : 'text-stone-400'}`}>{label}</button>
+                    ))}
+                  </div>
+                  {settings.analysisView === 'spectrum' && (
+                    <div className="flex gap-1 p-1 bg-stone-100 rounded-lg">
+                      {(['bars', 'line'] as const).map(style => (
+                        <button key={style} onClick={() => setSettings({...settings, spectrumStyle: style})} className={`flex-1 py-1 rounded-md text-[10px] uppercase tracking-wider transition-all ${settings.spectrumStyle === style ? 'bg-white shadow-sm text-black' : 'text-stone-400'}`}>{style}</button>
+                      ))}
+                    </div>
+                  )}
+                  <div className="flex gap-2 p-1 bg-stone-100 rounded-lg">
+                    <button onClick={() => setSettings({...settings, scopeSource: 'buffer'})} className={`flex-1 py-1 rounded-md text-xs transition-all ${settings.scopeSource === 'buffer' ? 'bg-white shadow-sm text-black' : 'text-stone-400'}`}>From Audio</button>
+                    <button onClick={() => setSettings({...settings, scopeSource: 'live'})} className={`flex-1 py-1 rounded-md text-xs transition-all ${settings.scopeSource === 'live' ? 'bg-white shadow-sm text-black' : 'text-stone-400'}`}>Live</button>
+                  </div>
                   <div className="space-y-1">
                       <div className="flex items-center gap-1 text-[9px] uppercase tracking-widest text-stone-400">
                         <Activity size={10}/> Line Width
                       </div>
                       <input type="range" min="0.5" max="10" step="0.1" value={settings.scopeLineWidth} onChange={(e) => setSettings({...settings, scopeLineWidth: Number(e.target.value)})} className="w-full accent-stone-800" />
                   </div>
+                  <div className="grid grid-cols-4 gap-1 p-1 bg-stone-100 rounded-lg">
+                    {([['mono', 'Mono'], ['stacked', 'L / R'], ['xy', 'X / Y'], ['midside', 'M / S']] as const).map(([mode, label]) => (
+                      <button key={mode} onClick={() => setSettings({...settings, scopeMode: mode})} className={`py-1 rounded-md text-[10px] tracking-wider transition-all ${settings.scopeMode === mode ? 'bg-white shadow-sm text-black' : 'text-stone-400'}`}>{label}</button>
+                    ))}
+                  </div>
+                  <div className="flex gap-1 p-1 bg-stone-100 rounded-lg">
+                    {(['free', 'trigger', 'pitch'] as const).map(mode => (
+                      <button key={mode} onClick={() => setSettings({...settings, scopeSync: mode})} className={`flex-1 py-1 rounded-md text-[10px] uppercase tracking-wider transition-all ${settings.scopeSync === mode ? 'bg-white shadow-sm text-black' : 'text-stone-400'}`}>{mode}</button>
+                    ))}
+                  </div>
+                  <div className="space-y-1">
+                      <div className="flex justify-between items-center text-[9px] uppercase tracking-widest text-stone-400">
+                        <span>Window</span>
+                        <span className="font-mono normal-case">{settings.scopeWindowMs}ms</span>
+                      </div>
+                      <input type="range" min="5" max="200" step="1" value={settings.scopeWindowMs} onChange={(e) => setSettings({...settings, scopeWindowMs: Number(e.target.value)})} className="w-full accent-stone-800" />
+                  </div>
+                  {settings.scopeSync !== 'free' && (
+                    <div className="grid grid-cols-2 gap-4 animate-in fade-in slide-in-from-top-1">
+                      <div className="space-y-1">
+                        <label className="text-[9px] uppercase tracking-widest text-stone-400 block">Level</label>
+                        <input type="range" min="-1" max="1" step="0.01" value={settings.scopeTriggerLevel} onChange={(e) => setSettings({...settings, scopeTriggerLevel: Number(e.target.value)})} className="w-full accent-stone-800" />
+                      </div>
+                      <div className="space-y-1">
+                        <label className="text-[9px] uppercase tracking-widest text-stone-400 block">Hysteresis</label>
+                        <input type="range" min="0" max="0.5" step="0.01" value={settings.scopeTriggerHysteresis} onChange={(e) => setSettings({...settings, scopeTriggerHysteresis: Number(e.target.value)})} className="w-full accent-stone-800" />
+                      </div>
+                    </div>
+                  )}
               </div>
 
               {imageSrc && (
@@ -317,10 +1161,66 @@ const App: React.FC = () => {
 
               <div>
                 <label className="text-[10px] uppercase tracking-[0.2em] text-stone-400 block mb-2 text-center">Format Vidéo</label>
-                <div className="flex gap-2">
-                  <button onClick={() => setSettings({...settings, aspectRatio: '16:9'})} className={`flex-1 py-1 text-xs border rounded ${settings.aspectRatio === '16:9' ? 'bg-stone-800 text-white border-stone-800' : 'border-stone-200 text-stone-500'}`}>16:9</button>
-                  <button onClick={() => setSettings({...settings, aspectRatio: '9:16'})} className={`flex-1 py-1 text-xs border rounded ${settings.aspectRatio === '9:16' ? 'bg-stone-800 text-white border-stone-800' : 'border-stone-200 text-stone-500'}`}>9:16</button>
+                <div className="flex gap-1 mb-3">
+                  {ASPECT_RATIOS.map(ratio => (
+                    <button key={ratio} onClick={() => setSettings({...settings, aspectRatio: ratio, layout: null})} className={`flex-1 py-1 text-xs border rounded ${settings.aspectRatio === ratio ? 'bg-stone-800 text-white border-stone-800' : 'border-stone-200 text-stone-500'}`}>{ratio}</button>
+                  ))}
+                </div>
+                <LayoutSettings aspectRatio={settings.aspectRatio} layout={settings.layout} editing={editingLayout} onChange={(layout) => setSettings({ ...settings, layout })} onEditingChange={setEditingLayout} />
+              </div>
+
+              <div className="space-y-3 border-t border-stone-100 pt-4">
+                <label className="text-[10px] uppercase tracking-[0.2em] text-stone-400 block text-center mb-1">Export Vidéo</label>
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="flex gap-1 p-1 bg-stone-100 rounded-lg">
+                    {(['mp4', 'webm'] as const).map(f => (
+                      <button key={f} onClick={() => setSettings({...settings, exportFormat: f})} className={`flex-1 py-1 rounded-md text-[10px] uppercase transition-all ${settings.exportFormat === f ? 'bg-white shadow-sm text-black' : 'text-stone-400'}`}>{f}</button>
+                    ))}
+                  </div>
+                  <div className="flex gap-1 p-1 bg-stone-100 rounded-lg">
+                    {[30, 60].map(fps => (
+                      <button key={fps} onClick={() => setSettings({...settings, exportFps: fps})} className={`flex-1 py-1 rounded-md text-[10px] transition-all ${settings.exportFps === fps ? 'bg-white shadow-sm text-black' : 'text-stone-400'}`}>{fps} fps</button>
+                    ))}
+                  </div>
+                </div>
+                <div className="flex gap-1 p-1 bg-stone-100 rounded-lg">
+                  {(['1080p', '4k'] as const).map(resolution => {
+                    const size = getFrameSize(settings.aspectRatio, resolution);
+                    return (
+                      <button key={resolution} onClick={() => setSettings({...settings, exportResolution: resolution})} className={`flex-1 py-1 rounded-md text-[10px] transition-all ${settings.exportResolution === resolution ? 'bg-white shadow-sm text-black' : 'text-stone-400'}`}>
+                        {resolution === '4k' ? '4K' : '1080p'} <span className="font-mono opacity-60">{size.width}×{size.height}</span>
+                      </button>
+                    );
+                  })}
+                </div>
+                {exportProgress === null ? (
+                  <button onClick={handleExport} className="w-full flex items-center justify-center gap-2 py-2 text-xs border rounded border-stone-800 bg-stone-800 text-white hover:bg-stone-700 transition-colors">
+                    <Film size={14}/> Export video
+                  </button>
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <div className="flex-1 h-1 bg-stone-200 rounded-full overflow-hidden">
+                      <div className="h-full bg-stone-800 transition-all" style={{ width: `${exportProgress * 100}%` }} />
+                    </div>
+                    <span className="text-[9px] font-mono text-stone-500 w-8 text-right">{Math.round(exportProgress * 100)}%</span>
+                    <button onClick={() => exportAbortRef.current?.abort()} className="p-1 hover:bg-stone-100 rounded" aria-label="Cancel export">
+                      <X size={12} className="text-stone-500"/>
+                    </button>
+                  </div>
+                )}
+                {exportError && <p className="text-[10px] text-red-700 text-center">{exportError}</p>}
+              </div>
+
+              <div className="space-y-2 border-t border-stone-100 pt-4">
+                <Timeline duration={duration} audioDuration={audioBuffer?.duration ?? 0} midiRange={midiRange} currentTime={currentTime} loop={loop} onSeek={handleSeek} onLoopChange={handleLoopChange} />
+                <div className="grid grid-cols-3 gap-2">
+                  <button onClick={() => handleLoopChange({ ...loop, start: currentTime, end: Math.max(loop.end, currentTime) })} className="py-1 text-[10px] uppercase tracking-wider border rounded border-stone-200 text-stone-500 hover:bg-stone-50">In</button>
+                  <button onClick={() => handleLoopChange({ ...loop, enabled: !loop.enabled })} className={`flex items-center justify-center gap-1 py-1 text-[10px] uppercase tracking-wider border rounded ${isLoopActive(loop) ? 'bg-stone-800 text-white border-stone-800' : 'border-stone-200 text-stone-500 hover:bg-stone-50'}`}>
+                    <Repeat size={10}/> Loop
+                  </button>
+                  <button onClick={() => handleLoopChange({ ...loop, start: Math.min(loop.start, currentTime), end: currentTime })} className="py-1 text-[10px] uppercase tracking-wider border rounded border-stone-200 text-stone-500 hover:bg-stone-50">Out</button>
                 </div>
+                <p className="text-[9px] text-stone-400 text-center leading-relaxed">Space play · ←/→ seek (⇧ fine) · Home · L loop · I/O set loop · ⇧-drag to draw a loop</p>
               </div>
 
               <div className="pt-4 grid grid-cols-3 gap-2 border-t border-stone-100">
@@ -341,64 +1241,12 @@ const App: React.FC = () => {
         </div>
       )}
 
-      <div className="relative shadow-2xl overflow-hidden transition-all duration-700 ease-in-out flex flex-col mx-auto" style={visualizerContainerStyle}>
+      <div className="relative isolate shadow-2xl overflow-hidden transition-all duration-700 ease-in-out flex flex-col mx-auto" style={visualizerContainerStyle}>
+        <BackgroundLayers layers={settings.background} theme={activeTheme} imageSrc={imageSrc} currentTime={currentTime} width={frameSize.width} height={frameSize.height} />
         
-        {/* TITRE */}
-        {isLandscape ? (
-          <div className="absolute top-0 w-full text-center pt-8 px-10 z-10 pointer-events-none">
-            <h1 ref={titleRef} className="font-serif tracking-[0.2em] mix-blend-difference whitespace-nowrap overflow-visible" 
-                style={{ color: activeTheme.text }}>
-              {settings.title || 'UNTITLED'}
-            </h1>
-          </div>
-        ) : (
-          <div className="w-full text-center pt-16 pb-8 px-6 z-10 shrink-0">
-             <h1 ref={titleRef} className="font-serif tracking-[0.2em] whitespace-nowrap overflow-visible leading-tight" 
-                style={{ color: activeTheme.text }}>
-              {settings.title || 'UNTITLED'}
-            </h1>
-          </div>
-        )}
-
-        {/* CONTENU PRINCIPAL */}
-        {isLandscape ? (
-          /* MISE EN PAGE 16/9 : Rétablie comme avant avec la grille */
-          <div className="grid grid-cols-12 grid-rows-2 w-full h-full p-10 gap-6 pt-28 flex-1">
-            <div className="col-span-8 row-span-2 relative overflow-hidden rounded-sm bg-black/5">
-               <PianoRoll notes={notes} currentTime={currentTime + (settings.offsetMs/1000)} palette={activeTheme.tracks} backgroundColor={activeTheme.background} width={dims.piano.w} height={dims.piano.h} />
-            </div>
-            <div className="col-span-4 row-span-1 relative overflow-hidden rounded-sm bg-black/5">
-                <Oscilloscope analyser={analyser} isPlaying={isPlaying} color={activeTheme.scope} backgroundColor={activeTheme.background} width={dims.scope.w} height={dims.scope.h} lineWidth={settings.scopeLineWidth} />
-            </div>
-            <div className="col-span-4 row-span-1 flex items-center justify-center overflow-hidden">
-               <div className="h-full aspect-square relative overflow-hidden shadow-2xl border border-white/10 rounded-sm bg-stone-500/10">
-                  {imageSrc ? (
-                    <img src={imageSrc} alt="Cover" className="absolute inset-0 w-full h-full" style={coverImageStyle} />
-                  ) : (
-                    <div className="absolute inset-0 flex items-center justify-center opacity-10 font-serif text-2xl italic text-center px-4" style={{ color: activeTheme.text }}>COVER</div>
-                  )}
-               </div>
-            </div>
-          </div>
-        ) : (
-          /* MISE EN PAGE 9/16 : Optimisée plein écran sans bordures */
-          <div className="flex flex-col flex-1 w-full gap-0 overflow-hidden">
-             <div className="flex flex-row h-[25%] min-h-[140px] gap-0 shrink-0 justify-center">
-                <div className="aspect-square h-full relative overflow-hidden bg-black/5 shrink-0 border-r border-black/5">
-                    {imageSrc ? (
-                      <img src={imageSrc} alt="Cover" className="absolute inset-0 w-full h-full" style={coverImageStyle} />
-                    ) : (
-                      <div className="absolute inset-0 flex items-center justify-center opacity-10 font-serif text-lg italic text-center" style={{ color: activeTheme.text }}>COVER</div>
-                    )}
-                </div>
-                <div className="flex-1 relative overflow-hidden bg-black/5">
-                     <Oscilloscope analyser={analyser} isPlaying={isPlaying} color={activeTheme.scope} backgroundColor={activeTheme.background} width={dims.scope.w} height={dims.scope.h} lineWidth={settings.scopeLineWidth} />
-                </div>
-             </div>
-             <div className="flex-1 relative overflow-hidden bg-black/5 border-t border-black/5">
-                <PianoRoll notes={notes} currentTime={currentTime + (settings.offsetMs/1000)} palette={activeTheme.tracks} backgroundColor={activeTheme.background} width={dims.piano.w} height={dims.piano.h} />
-             </div>
-          </div>
+        {layoutPanels.map(renderPanel)}
+        {editingLayout && (
+          <LayoutEditor panels={layoutPanels} onChange={(layout) => setSettings({ ...settings, layout })} onDone={() => setEditingLayout(false)} />
         )}
       </div>
     </div>
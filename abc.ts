@@ -0,0 +1,390 @@
+import { SCORE_PPQ, ScoreImport, ScoreMeasure, ScoreNote, createScoreMeasure, getFifthsName, getModeFifths } from './notation';
+
+const WHOLE = SCORE_PPQ * 4;
+const STEPS: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+// Position of each natural on the circle of fifths from C
+const LETTER_FIFTHS: Record<string, number> = { F: -1, C: 0, G: 1, D: 2, A: 3, E: 4, B: 5 };
+// !p!, !mf!, … decorations
+const DYNAMICS: Record<string, number> = { pppp: 20, ppp: 30, pp: 45, p: 60, mp: 70, mf: 80, f: 95, ff: 110, fff: 120, ffff: 127 };
+const DEFAULT_VELOCITY = 80;
+// (p:q:r tuplets: p notes in the time of q, where q defaults by p
+const TUPLET_TIME: Record<number, number> = { 2: 3, 3: 2, 4: 3, 6: 2, 8: 3 };
+
+interface Meter {
+  numerator: number;
+  denominator: number;
+}
+
+// --- FIELDS ---
+
+// 'C' is 4/4 and 'C|' 2/2; additive meters like 2+3/8 add up; 'none' is free meter
+const parseMeter = (field: string): Meter | null => {
+  const value = field.trim();
+  if (value === 'C') return { numerator: 4, denominator: 4 };
+  if (value === 'C|') return { numerator: 2, denominator: 2 };
+  const match = value.match(/^(\d+(?:\+\d+)*)\/(\d+)/);
+  if (!match) return null;
+  const numerator = match[1].split('+').reduce((sum, n) => sum + Number(n), 0);
+  return { numerator, denominator: Number(match[2]) };
+};
+
+// Unit note length in ticks, e.g. 1/8
+const parseUnit = (field: string): number | null => {
+  const match = field.trim().match(/^(\d+)\/(\d+)/);
+  return match ? WHOLE * Number(match[1]) / Number(match[2]) : null;
+};
+
+// Q:1/4=120, Q:3/8=60, Q:"Allegro" 1/4=132, or the older Q:120 counted in unit notes; returns quarter-note bpm
+const parseTempo = (field: string, unit: number): number | null => {
+  const value = field.replace(/"[^"]*"/g, '').trim();
+  const beat = value.match(/(\d+)\/(\d+)\s*=\s*(\d+(?:\.\d+)?)/);
+  if (beat) return Number(beat[3]) * (Number(beat[1]) / Number(beat[2])) * 4;
+  const plain = value.match(/^(?:C\s*=?\s*)?(\d+(?:\.\d+)?)$/);
+  return plain ? Number(plain[1]) * unit / SCORE_PPQ : null;
+};
+
+interface AbcKey {
+  accidentals: Record<string, number>; // by letter
+  signature?: { key: string; scale: string };
+}
+
+// K:G, K:F#m, K:Bb mix, K:D dorian. 'none', bagpipe keys and unknown values leave every note natural.
+const parseKey = (field: string): AbcKey => {
+  const match = field.trim().match(/^([A-G])([#b]?)\s*(maj|min|ion|aeo|mix|dor|phr|lyd|loc|m)?/i);
+  if (!match) return { accidentals: {} };
+  const mode = match[3] ?? '';
+  const shift = getModeFifths(mode || 'maj');
+  const tonic = LETTER_FIFTHS[match[1]] + (match[2] === '#' ? 7 : match[2] === 'b' ? -7 : 0);
+  const fifths = tonic - shift;
+
+  const accidentals: Record<string, number> = {};
+  const order = fifths > 0 ? 'FCGDAEB' : 'BEADGCF';
+  for (let i = 0; i < Math.min(7, Math.abs(fifths)); i++) accidentals[order[i]] = Math.sign(fifths);
+  return { accidentals, signature: { key: getFifthsName(tonic), scale: shift >= 2 ? 'minor' : 'major' } };
+};
+
+// --- TUNE BODY ---
+
+interface VoiceStart {
+  unit: number;
+  meter: Meter | null;
+  key: AbcKey;
+  tempo: number | null;
+}
+
+// Counts of what the tune holds but the piano roll leaves out
+interface Skipped {
+  grace: number;
+}
+
+// Reads one voice's music into measures, one per bar line
+const parseVoice = (body: string, initial: VoiceStart, id: string, skipped: Skipped): ScoreMeasure[] => {
+  const measures: ScoreMeasure[] = [];
+  let { unit, meter, key } = initial;
+  let velocity = DEFAULT_VELOCITY;
+  let measure = createScoreMeasure();
+  let pos = 0;
+  // Accidentals written in the bar hold for the same note until the bar line
+  let barAccidentals: Record<string, number> = {};
+  // The open volta, carried from measure to measure until a double bar or repeat sign
+  let endings: number[] | null = null;
+  let tuplet: { factor: number; remaining: number } | null = null;
+  let brokenNext = 1;
+  // The last note or chord, for ties and broken rhythm
+  let last: { notes: ScoreNote[]; start: number; duration: number } | null = null;
+
+  if (meter) measure.timeSignature = meter;
+  if (key.signature) measure.key = key.signature;
+  if (initial.tempo) measure.tempos.push({ offset: 0, bpm: initial.tempo });
+
+  const closeMeasure = () => {
+    barAccidentals = {};
+    last = null;
+    if (pos === 0 && measure.notes.length === 0) return;
+    measure.length = pos;
+    measures.push(measure);
+    measure = createScoreMeasure();
+    measure.endings = endings;
+    pos = 0;
+  };
+
+  const applyField = (name: string, value: string) => {
+    if (name === 'K') {
+      key = parseKey(value);
+      if (key.signature) measure.key = key.signature;
+    } else if (name === 'M') {
+      meter = parseMeter(value);
+      if (meter) measure.timeSignature = meter;
+    } else if (name === 'L') {
+      unit = parseUnit(value) ?? unit;
+    } else if (name === 'Q') {
+      const bpm = parseTempo(value, unit);
+      if (bpm) measure.tempos.push({ offset: pos, bpm });
+    }
+  };
+
+  // Length multiplier after a note: 2, /, //, 3/2, /4
+  const readLength = (s: string, i: number): [number, number] => {
+    const match = s.slice(i).match(/^(\d*)(\/*)(\d*)/)!;
+    const numerator = match[1] ? Number(match[1]) : 1;
+    const slashes = match[2].length;
+    const denominator = slashes === 0 ? 1 : match[3] ? Number(match[3]) * 2 ** (slashes - 1) : 2 ** slashes;
+    return [numerator / denominator, i + match[0].length];
+  };
+
+  // A pitch with its accidentals and octave marks; null when `s[i]` doesn't start one
+  const readPitch = (s: string, i: number): [number, number] | null => {
+    const match = s.slice(i).match(/^(\^{1,2}|_{1,2}|=)?([A-Ga-g])([,']*)/);
+    if (!match) return null;
+    const letter = match[2].toUpperCase();
+    const octave = (match[2] === letter ? 4 : 5) + (match[3].match(/'/g)?.length ?? 0) - (match[3].match(/,/g)?.length ?? 0);
+    const id = `${letter}${octave}`;
+    if (match[1]) barAccidentals[id] = match[1] === '=' ? 0 : (match[1][0] === '^' ? 1 : -1) * match[1].length;
+    const alter = barAccidentals[id] ?? key.accidentals[letter] ?? 0;
+    return [(octave + 1) * 12 + STEPS[letter] + alter, i + match[0].length];
+  };
+
+  // Places a note or chord of `length` units at the current position
+  const place = (pitches: { note: number; tie: boolean }[], length: number) => {
+    let duration = length * unit * brokenNext;
+    brokenNext = 1;
+    if (tuplet) {
+      duration *= tuplet.factor;
+      if (--tuplet.remaining === 0) tuplet = null;
+    }
+    const notes = pitches
+      .filter(p => p.note >= 0 && p.note <= 127)
+      .map(p => ({ offset: pos, duration, note: p.note, velocity, voice: id, staff: 1, tieStart: p.tie }));
+    measure.notes.push(...notes);
+    last = { notes, start: pos, duration };
+    pos += duration;
+  };
+
+  const s = body;
+  let i = 0;
+  while (i < s.length) {
+    const c = s[i];
+    const rest = s.slice(i);
+
+    // Bar lines, with repeat colons on either side (:: alone repeats both ways) and an optional ending number after
+    const bar = rest.match(/^(:*)(\[\||\|\]|\|\||\||(?=:))(:*)\s*(?:\[?(\d+(?:[,-]\d+)*))?/);
+    if (bar && (bar[2] || (bar[1] && bar[3])) && (c === '|' || c === ':' || (c === '[' && s[i + 1] === '|'))) {
+      const [, before, kind, after, ending] = bar;
+      const backward = before.length > 0;
+      const forward = after.length > 0;
+      const target = pos > 0 || measure.notes.length > 0 ? measure : measures[measures.length - 1];
+      if (backward && target) target.repeatTimes = Math.max(target.repeatTimes, before.length + 1);
+      closeMeasure();
+      if (backward || forward || kind.length > 1) endings = null;
+      if (ending) endings = ending.split(',').flatMap(part => {
+        const [from, to] = part.split('-').map(Number);
+        return to ? Array.from({ length: Math.max(0, to - from + 1) }, (_, k) => from + k) : [from];
+      });
+      measure.endings = endings;
+      if (forward) measure.repeatStart = true;
+      i += bar[0].length;
+      continue;
+    }
+
+    if (c === '[') {
+      const field = rest.match(/^\[([A-Za-z]):([^\]]*)\]/);
+      if (field) {
+        applyField(field[1], field[2]);
+        i += field[0].length;
+        continue;
+      }
+      // A volta without a bar line before it: [1, [2
+      const volta = rest.match(/^\[(\d+(?:[,-]\d+)*)/);
+      if (volta) {
+        closeMeasure();
+        endings = volta[1].split(',').map(n => parseInt(n));
+        measure.endings = endings;
+        i += volta[0].length;
+        continue;
+      }
+      // Chord: its length is the first note's, times the length written after the bracket
+      const pitches: { note: number; tie: boolean }[] = [];
+      let first: number | null = null;
+      let j = i + 1;
+      while (j < s.length && s[j] !== ']') {
+        const pitch = readPitch(s, j);
+        if (!pitch) {
+          j++;
+          continue;
+        }
+        const [inner, next] = readLength(s, pitch[1]);
+        first ??= inner;
+        j = next;
+        const tie = s[j] === '-';
+        if (tie) j++;
+        pitches.push({ note: pitch[0], tie });
+      }
+      const [outer, next] = readLength(s, j + 1);
+      if (pitches.length > 0) place(pitches, (first ?? 1) * outer);
+      i = next;
+      continue;
+    }
+
+    if (c === '(' && /\d/.test(s[i + 1] ?? '')) {
+      const match = rest.match(/^\((\d+)(?::(\d*))?(?::(\d*))?/)!;
+      const p = Number(match[1]);
+      const q = match[2] ? Number(match[2]) : TUPLET_TIME[p] ?? (meter && meter.numerator % 3 === 0 && meter.numerator > 3 ? 3 : 2);
+      tuplet = { factor: q / p, remaining: match[3] ? Number(match[3]) : p };
+      i += match[0].length;
+      continue;
+    }
+
+    if (c === '"') {
+      const close = s.indexOf('"', i + 1);
+      i = close < 0 ? s.length : close + 1;
+      continue;
+    }
+
+    if (c === '!' || (c === '+' && /^\+[^+\s]+\+/.test(rest))) {
+      const close = s.indexOf(c, i + 1);
+      const name = s.slice(i + 1, close < 0 ? s.length : close);
+      if (name in DYNAMICS) velocity = DYNAMICS[name];
+      i = close < 0 ? s.length : close + 1;
+      continue;
+    }
+
+    if (c === '{') {
+      const close = s.indexOf('}', i + 1);
+      skipped.grace += (s.slice(i, close < 0 ? s.length : close).match(/[A-Ga-g]/g) ?? []).length;
+      i = close < 0 ? s.length : close + 1;
+      continue;
+    }
+
+    if (c === '-') {
+      last?.notes.forEach(n => { n.tieStart = true; });
+      i++;
+      continue;
+    }
+
+    // Broken rhythm: a>b is a dotted a then a halved b; >> and <<< go further
+    if ((c === '>' || c === '<') && last) {
+      const run = rest.match(/^(>+|<+)/)![0];
+      const shorter = 0.5 ** run.length;
+      const longer = 2 - shorter;
+      const duration = last.duration * (c === '>' ? longer : shorter);
+      last.notes.forEach(n => { n.duration = duration; });
+      pos = last.start + duration;
+      brokenNext = c === '>' ? shorter : longer;
+      i += run.length;
+      continue;
+    }
+
+    // Rests; Z and X are whole bars of rest
+    if (c === 'z' || c === 'x') {
+      const [length, next] = readLength(s, i + 1);
+      place([], length);
+      i = next;
+      continue;
+    }
+    if (c === 'Z' || c === 'X') {
+      const match = rest.match(/^[ZX](\d*)/)!;
+      const bars = match[1] ? Number(match[1]) : 1;
+      const barLength = meter ? WHOLE * meter.numerator / meter.denominator : WHOLE;
+      closeMeasure();
+      for (let b = 0; b < bars; b++) {
+        pos = barLength;
+        closeMeasure();
+      }
+      i += match[0].length;
+      continue;
+    }
+
+    const pitch = readPitch(s, i);
+    if (pitch) {
+      const [length, next] = readLength(s, pitch[1]);
+      place([{ note: pitch[0], tie: false }], length);
+      i = next;
+      continue;
+    }
+
+    // Spaces, slurs, one-letter decorations (. ~ H T u v …) and anything unknown
+    i++;
+  }
+  closeMeasure();
+  return measures;
+};
+
+// --- TUNE ---
+
+// Reads the first tune of an ABC file. Each voice (V:) becomes a part; without V: fields the tune is one voice.
+export const parseAbc = (source: string): ScoreImport => {
+  const lines = source.split(/\r?\n/);
+  const tuneStarts = lines.flatMap((line, i) => /^X:/.test(line) ? [i] : []);
+  const start = tuneStarts[0] ?? 0;
+  const end = tuneStarts[1] ?? lines.length;
+
+  let title = '';
+  let meter: Meter | null = null;
+  let unit: number | null = null;
+  let key: AbcKey = { accidentals: {} };
+  let tempoField = '';
+  let inHeader = true;
+  const voices = new Map<string, { name: string; body: string }>();
+  let current = '';
+
+  const useVoice = (field: string) => {
+    const id = field.trim().split(/\s+/)[0] || '1';
+    const name = field.match(/(?:name|nm)\s*=\s*"([^"]*)"/)?.[1];
+    const voice = voices.get(id);
+    if (!voice) voices.set(id, { name: name || `Voice ${id}`, body: '' });
+    else if (name) voice.name = name;
+    current = id;
+  };
+
+  const append = (text: string) => {
+    if (!current) useVoice('1');
+    voices.get(current)!.body += text;
+  };
+
+  for (const raw of lines.slice(start, end)) {
+    const line = raw.replace(/%.*$/, '');
+    const field = line.match(/^([A-Za-z]):(.*)$/);
+    if (field) {
+      const [, name, value] = field;
+      if (name === 'V') useVoice(value);
+      else if (inHeader) {
+        if (name === 'T' && !title) title = value.trim();
+        else if (name === 'M') meter = parseMeter(value);
+        else if (name === 'L') unit = parseUnit(value);
+        else if (name === 'Q') tempoField = value;
+        else if (name === 'K') {
+          key = parseKey(value);
+          inHeader = false;
+        }
+      } else if ('KMLQ'.includes(name)) {
+        append(`[${name}:${value}]`);
+      }
+      continue;
+    }
+    if (inHeader) continue;
+
+    // Inline voice changes split a line between voices
+    const pieces = line.replace(/\\\s*$/, '').split(/\[V:([^\]]*)\]/);
+    pieces.forEach((piece, k) => {
+      if (k % 2 === 1) useVoice(piece);
+      else append(piece + (k === pieces.length - 1 ? ' ' : ''));
+    });
+  }
+  if (inHeader) throw new Error('No K: (key) field: this does not look like an ABC tune');
+
+  // Without L:, short meters count in sixteenths and the rest in eighths
+  const defaultUnit = meter && meter.numerator / meter.denominator < 0.75 ? WHOLE / 16 : WHOLE / 8;
+  const initial: VoiceStart = { unit: unit ?? defaultUnit, meter, key, tempo: null };
+  initial.tempo = tempoField ? parseTempo(tempoField, initial.unit) : null;
+
+  const skipped: Skipped = { grace: 0 };
+  const parts = [...voices]
+    .filter(([, voice]) => voice.body.trim())
+    .map(([id, voice]) => ({ name: voice.name, instrument: '', measures: parseVoice(voice.body, initial, id, skipped) }));
+  if (voices.size === 1 && parts[0]) parts[0].name = title || parts[0].name;
+
+  const warnings: string[] = [];
+  if (tuneStarts.length > 1) warnings.push(`Only the first of ${tuneStarts.length} tunes was read`);
+  if (skipped.grace > 0) warnings.push(`${skipped.grace} grace note${skipped.grace === 1 ? '' : 's'} left out`);
+  return { score: { name: title, parts }, warnings };
+};
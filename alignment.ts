@@ -0,0 +1,142 @@
+import { AlignmentResult, NoteEvent } from './types';
+import { fft } from './spectrum';
+
+const HOP_SECONDS = 0.01;    // onset envelope resolution
+const FRAME_SIZE = 1024;
+const SMOOTHING_FRAMES = 2;  // Gaussian sigma applied to the envelope
+const AMBIGUITY_THRESHOLD = 0.25;
+
+const yieldToBrowser = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// Spectral flux (sum of positive log-magnitude increases between frames) of the mono mixdown,
+// one value per HOP_SECONDS. Peaks mark where notes start in the recording.
+export const computeOnsetEnvelope = async (buffer: AudioBuffer): Promise<Float32Array> => {
+  const hop = Math.round(buffer.sampleRate * HOP_SECONDS);
+  const frames = Math.floor(buffer.length / hop);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+
+  const hann = new Float32Array(FRAME_SIZE);
+  for (let i = 0; i < FRAME_SIZE; i++) hann[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / FRAME_SIZE);
+
+  const flux = new Float32Array(frames);
+  let previous = new Float32Array(FRAME_SIZE / 2);
+  const re = new Float32Array(FRAME_SIZE);
+  const im = new Float32Array(FRAME_SIZE);
+
+  for (let f = 0; f < frames; f++) {
+    const start = f * hop - FRAME_SIZE / 2;
+    for (let i = 0; i < FRAME_SIZE; i++) {
+      const idx = start + i;
+      let v = 0;
+      if (idx >= 0 && idx < buffer.length) for (const data of channels) v += data[idx];
+      re[i] = (v / channels.length) * hann[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+
+    const current = new Float32Array(FRAME_SIZE / 2);
+    let sum = 0;
+    for (let k = 0; k < current.length; k++) {
+      current[k] = Math.log1p(100 * Math.hypot(re[k], im[k]));
+      sum += Math.max(0, current[k] - previous[k]);
+    }
+    flux[f] = sum;
+    previous = current;
+
+    if (f % 2000 === 1999) await yieldToBrowser();
+  }
+
+  // Remove the slowly varying level (0.5 s running mean) so only sudden attacks remain
+  const prefix = new Float64Array(frames + 1);
+  for (let f = 0; f < frames; f++) prefix[f + 1] = prefix[f] + flux[f];
+  const adaptive = new Float32Array(frames);
+  const half = 25;
+  for (let f = 0; f < frames; f++) {
+    const lo = Math.max(0, f - half);
+    const hi = Math.min(frames, f + half + 1);
+    adaptive[f] = Math.max(0, flux[f] - (prefix[hi] - prefix[lo]) / (hi - lo));
+  }
+
+  return gaussianSmooth(adaptive, SMOOTHING_FRAMES);
+};
+
+const gaussianSmooth = (data: Float32Array, sigma: number) => {
+  const radius = Math.ceil(sigma * 3);
+  const kernel = Array.from({ length: radius * 2 + 1 }, (_, i) => Math.exp(-((i - radius) ** 2) / (2 * sigma * sigma)));
+  const norm = kernel.reduce((a, b) => a + b, 0);
+  const out = new Float32Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    let v = 0;
+    for (let k = -radius; k <= radius; k++) {
+      const j = i + k;
+      if (j >= 0 && j < data.length) v += data[j] * kernel[k + radius];
+    }
+    out[i] = v / norm;
+  }
+  return out;
+};
+
+// Note-ons merged into one event per chord, weighted by their loudest velocity
+const getOnsets = (notes: NoteEvent[]) => {
+  const onsets: { time: number; weight: number }[] = [];
+  for (const n of [...notes].sort((a, b) => a.startTime - b.startTime)) {
+    const last = onsets[onsets.length - 1];
+    if (last && n.startTime - last.time < HOP_SECONDS) last.weight = Math.max(last.weight, n.velocity / 127);
+    else onsets.push({ time: n.startTime, weight: n.velocity / 127 });
+  }
+  return onsets;
+};
+
+const sampleEnvelope = (envelope: Float32Array, time: number) => {
+  const pos = time / HOP_SECONDS;
+  const i = Math.floor(pos);
+  if (i < 0 || i + 1 >= envelope.length) return 0;
+  return envelope[i] + (envelope[i + 1] - envelope[i]) * (pos - i);
+};
+
+// Cross-correlates the recording's onset envelope with the MIDI note-ons and returns the
+// offsetMs (MIDI time = audio time + offset) that lines them up best, to the millisecond.
+// Confidence compares the winning peak with the best rival peak at least 50 ms away: near 0 means
+// another lag fits almost as well (repetitive rhythm, wrong file), near 1 means a clear match.
+export const autoAlign = async (
+  buffer: AudioBuffer,
+  notes: NoteEvent[],
+  maxOffsetMs: number = 2000
+): Promise<AlignmentResult> => {
+  const onsets = getOnsets(notes);
+  if (onsets.length === 0) throw new Error('No MIDI notes to align');
+
+  const envelope = await computeOnsetEnvelope(buffer);
+
+  const scores = new Float32Array(maxOffsetMs * 2 + 1);
+  for (let i = 0; i < scores.length; i++) {
+    const offset = (i - maxOffsetMs) / 1000;
+    let score = 0;
+    for (const o of onsets) score += o.weight * sampleEnvelope(envelope, o.time - offset);
+    scores[i] = score;
+    if (i % 500 === 499) await yieldToBrowser();
+  }
+
+  let best = 0;
+  let mean = 0;
+  for (let i = 0; i < scores.length; i++) {
+    mean += scores[i] / scores.length;
+    if (scores[i] > scores[best]) best = i;
+  }
+
+  // Strongest other local maximum, so the flanks of the winning peak don't count as rivals
+  let rival = mean;
+  for (let i = 1; i < scores.length - 1; i++) {
+    const isPeak = scores[i] >= scores[i - 1] && scores[i] >= scores[i + 1];
+    if (isPeak && Math.abs(i - best) > 50) rival = Math.max(rival, scores[i]);
+  }
+
+  const peak = scores[best] - mean;
+  const confidence = peak > 0 ? Math.min(1, Math.max(0, 1 - (rival - mean) / peak)) : 0;
+
+  return {
+    offsetMs: best - maxOffsetMs,
+    confidence,
+    ambiguous: confidence < AMBIGUITY_THRESHOLD
+  };
+};
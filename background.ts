@@ -0,0 +1,181 @@
+import { BackgroundLayers, ThemePalette } from './types';
+
+// Background layers are painted in frame coordinates; sizes are given for a frame whose short side is 1080 px
+const REFERENCE_SIZE = 1080;
+const NOISE_COLUMNS = 32;
+const NOISE_SPEED = 0.15; // noise cells morph once every ~7 s
+const GRAIN_SIZE = 128;
+const GRAIN_FRAMES = 4;
+const GRAIN_FPS = 12;
+
+// Integer lattice hash in [0, 1)
+const hash = (x: number, y: number, z: number) => {
+  let h = (Math.imul(x, 374761393) + Math.imul(y, 668265263) + Math.imul(z, 1442695041)) | 0;
+  h = Math.imul(h ^ (h >>> 13), 1274126177);
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+};
+
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+
+// --- COVER ---
+
+const blurCache = new WeakMap<HTMLImageElement, { key: string; canvas: HTMLCanvasElement }>();
+
+// The cover scaled to fill the frame and blurred once per size, so each frame only copies it.
+// Browsers without canvas filters get a downscale-and-stretch blur instead.
+const getBlurredCover = (image: HTMLImageElement, blur: number, width: number, height: number) => {
+  const key = `${blur}:${width}x${height}`;
+  const cached = blurCache.get(image);
+  if (cached?.key === key) return cached.canvas;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(width);
+  canvas.height = Math.ceil(height);
+  const ctx = canvas.getContext('2d')!;
+
+  // Overscan by twice the radius so the blur doesn't pull transparent edges in
+  const pad = blur * 2;
+  const scale = Math.max((width + pad * 2) / image.naturalWidth, (height + pad * 2) / image.naturalHeight);
+  const w = image.naturalWidth * scale;
+  const h = image.naturalHeight * scale;
+  if (blur > 0 && 'filter' in ctx) {
+    ctx.filter = `blur(${blur}px)`;
+    ctx.drawImage(image, (width - w) / 2, (height - h) / 2, w, h);
+  } else {
+    const factor = Math.max(1, blur / 3);
+    const small = document.createElement('canvas');
+    small.width = Math.max(1, Math.round(width / factor));
+    small.height = Math.max(1, Math.round(height / factor));
+    const smallCtx = small.getContext('2d')!;
+    smallCtx.drawImage(image, (small.width - w / factor) / 2, (small.height - h / factor) / 2, w / factor, h / factor);
+    ctx.imageSmoothingQuality = 'high';
+    ctx.drawImage(small, 0, 0, width, height);
+  }
+
+  blurCache.set(image, { key, canvas });
+  return canvas;
+};
+
+// --- NOISE AND GRAIN ---
+
+let noiseCanvas: HTMLCanvasElement | null = null;
+
+// Value noise on a coarse grid, each cell fading between two random levels as time passes
+const getNoise = (time: number, width: number, height: number) => {
+  const cols = NOISE_COLUMNS;
+  const rows = Math.max(1, Math.round(NOISE_COLUMNS * height / width));
+  noiseCanvas ??= document.createElement('canvas');
+  noiseCanvas.width = cols;
+  noiseCanvas.height = rows;
+  const ctx = noiseCanvas.getContext('2d')!;
+
+  const z = time * NOISE_SPEED;
+  const z0 = Math.floor(z);
+  const t = smoothstep(z - z0);
+  const image = ctx.createImageData(cols, rows);
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < cols; x++) {
+      const v = hash(x, y, z0) * (1 - t) + hash(x, y, z0 + 1) * t;
+      const p = (y * cols + x) * 4;
+      image.data[p] = image.data[p + 1] = image.data[p + 2] = v * 255;
+      image.data[p + 3] = 255;
+    }
+  }
+  ctx.putImageData(image, 0, 0);
+  return noiseCanvas;
+};
+
+let grainFrames: HTMLCanvasElement[] | null = null;
+
+const getGrainFrame = (time: number) => {
+  grainFrames ??= Array.from({ length: GRAIN_FRAMES }, (_, f) => {
+    const canvas = document.createElement('canvas');
+    canvas.width = canvas.height = GRAIN_SIZE;
+    const ctx = canvas.getContext('2d')!;
+    const image = ctx.createImageData(GRAIN_SIZE, GRAIN_SIZE);
+    for (let i = 0; i < GRAIN_SIZE * GRAIN_SIZE; i++) {
+      const v = hash(i % GRAIN_SIZE, Math.floor(i / GRAIN_SIZE), f) * 255;
+      image.data[i * 4] = image.data[i * 4 + 1] = image.data[i * 4 + 2] = v;
+      image.data[i * 4 + 3] = 255;
+    }
+    ctx.putImageData(image, 0, 0);
+    return canvas;
+  });
+  const frame = Math.floor(Math.max(0, time) * GRAIN_FPS);
+  return { canvas: grainFrames[frame % GRAIN_FRAMES], dx: hash(frame, 0, 7) * GRAIN_SIZE, dy: hash(frame, 1, 7) * GRAIN_SIZE };
+};
+
+// --- DRAWING ---
+
+export const hasAnimatedBackground = (layers: BackgroundLayers) => layers.noise > 0 || layers.grain > 0;
+
+// Theme colour, blurred cover, palette gradient, noise, grain and vignette, bottom to top.
+// Deterministic for a given time, so exports match the preview.
+export const drawBackgroundLayers = (
+  ctx: CanvasRenderingContext2D,
+  layers: BackgroundLayers,
+  theme: ThemePalette,
+  cover: HTMLImageElement | null,
+  time: number,
+  width: number,
+  height: number
+) => {
+  const unit = Math.min(width, height) / REFERENCE_SIZE;
+  ctx.save();
+  ctx.fillStyle = theme.background;
+  ctx.fillRect(0, 0, width, height);
+
+  if (cover && layers.cover > 0) {
+    ctx.globalAlpha = layers.cover;
+    ctx.drawImage(getBlurredCover(cover, Math.round(layers.blur * unit), width, height), 0, 0, width, height);
+  }
+
+  if (layers.gradient !== 'none' && layers.gradientStrength > 0) {
+    const from = theme.tracks[0];
+    const to = theme.tracks[1 % theme.tracks.length];
+    const gradient = layers.gradient === 'linear'
+      ? ctx.createLinearGradient(0, 0, width, height)
+      : ctx.createRadialGradient(width / 2, height / 2, 0, width / 2, height / 2, Math.hypot(width, height) / 2);
+    gradient.addColorStop(0, layers.gradient === 'linear' ? from : to);
+    gradient.addColorStop(1, layers.gradient === 'linear' ? to : theme.background);
+    ctx.globalAlpha = layers.gradientStrength * 0.6;
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+  }
+
+  if (layers.noise > 0) {
+    ctx.globalAlpha = layers.noise * 0.6;
+    ctx.globalCompositeOperation = 'soft-light';
+    ctx.imageSmoothingEnabled = true;
+    ctx.drawImage(getNoise(time, width, height), 0, 0, width, height);
+    ctx.globalCompositeOperation = 'source-over';
+  }
+
+  if (layers.grain > 0) {
+    const { canvas, dx, dy } = getGrainFrame(time);
+    const pattern = ctx.createPattern(canvas, 'repeat');
+    if (pattern) {
+      // Sized in pixels of a 1080-px frame like the blur, so a 4K export gets grain of the same relative size
+      ctx.save();
+      ctx.globalAlpha = layers.grain * 0.35;
+      ctx.globalCompositeOperation = 'overlay';
+      ctx.imageSmoothingEnabled = false;
+      ctx.scale(unit, unit);
+      ctx.translate(-dx, -dy);
+      ctx.fillStyle = pattern;
+      ctx.fillRect(0, 0, width / unit + dx, height / unit + dy);
+      ctx.restore();
+    }
+  }
+
+  if (layers.vignette > 0) {
+    const radius = Math.hypot(width, height) / 2;
+    const gradient = ctx.createRadialGradient(width / 2, height / 2, radius * 0.35, width / 2, height / 2, radius);
+    gradient.addColorStop(0, 'rgba(0,0,0,0)');
+    gradient.addColorStop(1, `rgba(0,0,0,${layers.vignette * 0.75})`);
+    ctx.globalAlpha = 1;
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+  }
+  ctx.restore();
+};
@@ -0,0 +1,44 @@
+import React, { useRef, useEffect, useState } from 'react';
+import { BackgroundLayers as Layers, ThemePalette } from '../types';
+import { drawBackgroundLayers, hasAnimatedBackground } from '../background';
+import { loadImage } from '../utils';
+
+interface BackgroundLayersProps {
+  layers: Layers;
+  theme: ThemePalette;
+  imageSrc: string | null;
+  currentTime: number;
+  width: number;  // frame size, as in the export
+  height: number;
+}
+
+// Full-frame canvas behind the panels, drawn with the same function as the export
+const BackgroundLayers: React.FC<BackgroundLayersProps> = ({ layers, theme, imageSrc, currentTime, width, height }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [cover, setCover] = useState<HTMLImageElement | null>(null);
+  // Only noise and grain move, so a still background doesn't redraw every frame
+  const time = hasAnimatedBackground(layers) ? currentTime : 0;
+
+  useEffect(() => {
+    setCover(null);
+    if (!imageSrc) return;
+    let cancelled = false;
+    // The importer has already loaded this image and reported any failure
+    loadImage(imageSrc)
+      .then(img => { if (!cancelled) setCover(img); }, () => {});
+    return () => { cancelled = true; };
+  }, [imageSrc]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    if (canvas.width !== width) canvas.width = width;
+    if (canvas.height !== height) canvas.height = height;
+    drawBackgroundLayers(ctx, layers, theme, cover, time, width, height);
+  }, [layers, theme, cover, time, width, height]);
+
+  return <canvas ref={canvasRef} className="absolute inset-0 w-full h-full -z-10 pointer-events-none" />;
+};
+
+export default BackgroundLayers;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { Plus, X, Crosshair } from 'lucide-react';
+import { TimedCaption } from '../types';
+import { formatTime } from '../utils';
+
+interface CaptionEditorProps {
+  captions: TimedCaption[];
+  currentTime: number;
+  onChange: (captions: TimedCaption[]) => void;
+  onSeek: (time: number) => void;
+}
+
+// Timed captions such as movement names, kept in time order
+const CaptionEditor: React.FC<CaptionEditorProps> = ({ captions, currentTime, onChange, onSeek }) => {
+  const update = (i: number, patch: Partial<TimedCaption>) => {
+    const next = captions.map((c, j) => j === i ? { ...c, ...patch } : c);
+    onChange(patch.time === undefined ? next : [...next].sort((a, b) => a.time - b.time));
+  };
+
+  const addCaption = () => {
+    onChange([...captions, { time: Math.round(currentTime * 10) / 10, text: '' }].sort((a, b) => a.time - b.time));
+  };
+
+  return (
+    <div className="space-y-1">
+      {captions.map((caption, i) => (
+        <div key={i} className="flex items-center gap-1.5 text-[10px]">
+          <button onClick={() => onSeek(caption.time)} className="font-mono text-[9px] text-stone-400 hover:text-black w-10 text-left shrink-0" title="Go to caption">
+            {formatTime(caption.time)}
+          </button>
+          <button onClick={() => update(i, { time: Math.round(currentTime * 10) / 10 })} className="text-stone-300 hover:text-stone-600" aria-label="Move caption to playhead">
+            <Crosshair size={9}/>
+          </button>
+          <input type="text" value={caption.text} onChange={(e) => update(i, { text: e.target.value })} placeholder="Caption" className="flex-1 min-w-0 bg-transparent border-b border-stone-200 p-0.5 focus:outline-none" />
+          <button onClick={() => onChange(captions.filter((_, j) => j !== i))} className="text-stone-300 hover:text-red-700" aria-label="Remove caption">
+            <X size={10}/>
+          </button>
+        </div>
+      ))}
+      <button onClick={addCaption} className="w-full flex items-center justify-center gap-1.5 py-1.5 bg-stone-100 hover:bg-stone-200 rounded text-[10px] uppercase tracking-wider transition-colors">
+        <Plus size={11}/> Caption at {formatTime(currentTime)}
+      </button>
+    </div>
+  );
+};
+
+export default CaptionEditor;
@@ -0,0 +1,43 @@
+import React, { useEffect, useState } from 'react';
+
+interface FpsMeterProps {
+  label?: string;
+}
+
+// Frames per second of the page, averaged over half-second windows, with the slowest frame in each
+const FpsMeter: React.FC<FpsMeterProps> = ({ label }) => {
+  const [stats, setStats] = useState({ fps: 0, worst: 0 });
+
+  useEffect(() => {
+    let frame = 0;
+    let frames = 0;
+    let worst = 0;
+    let windowStart = performance.now();
+    let last = windowStart;
+
+    const tick = (now: number) => {
+      frames++;
+      worst = Math.max(worst, now - last);
+      last = now;
+      if (now - windowStart >= 500) {
+        setStats({ fps: (frames * 1000) / (now - windowStart), worst });
+        frames = 0;
+        worst = 0;
+        windowStart = now;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  return (
+    <div className="absolute bottom-4 left-4 z-50 px-3 py-2 rounded-lg bg-black/70 text-white font-mono text-[10px] leading-relaxed pointer-events-none">
+      <div>{stats.fps.toFixed(0)} fps</div>
+      <div className="text-white/60">worst {stats.worst.toFixed(1)} ms</div>
+      {label && <div className="text-white/60">{label}</div>}
+    </div>
+  );
+};
+
+export default FpsMeter;
@@ -0,0 +1,42 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { ImportReport } from '../types';
+
+interface ImportStatusProps {
+  reports: ImportReport[];
+  onDismiss: () => void;
+}
+
+const KIND_NAMES: Record<NonNullable<ImportReport['kind']>, string> = {
+  midi: 'MIDI',
+  score: 'Score',
+  audio: 'Audio',
+  image: 'Cover',
+  project: 'Project'
+};
+
+// Outcome of the latest imports, newest first: what failed, and what loaded but may look wrong
+const ImportStatus: React.FC<ImportStatusProps> = ({ reports, onDismiss }) => {
+  if (reports.length === 0) return null;
+
+  return (
+    <div className="relative space-y-2 p-2 pr-6 bg-stone-50 border border-stone-100 rounded">
+      <button onClick={onDismiss} className="absolute top-1.5 right-1.5 text-stone-300 hover:text-stone-600" aria-label="Dismiss import messages">
+        <X size={10}/>
+      </button>
+      {reports.map((report, i) => (
+        <div key={i} className="space-y-0.5">
+          <div className="flex items-baseline gap-1.5 text-[9px]">
+            <span className="uppercase tracking-widest text-stone-400 shrink-0">{report.kind ? KIND_NAMES[report.kind] : 'File'}</span>
+            <span className="truncate text-stone-600" title={report.file}>{report.file}</span>
+            {report.errors.length === 0 && report.warnings.length === 0 && <span className="italic text-stone-400 shrink-0">loaded</span>}
+          </div>
+          {report.errors.map((error, j) => <p key={`e${j}`} className="text-[10px] text-red-700 break-words">{error}</p>)}
+          {report.warnings.map((warning, j) => <p key={`w${j}`} className="text-[9px] text-amber-700 break-words">{warning}</p>)}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ImportStatus;
@@ -0,0 +1,78 @@
+import React, { useRef } from 'react';
+import { X } from 'lucide-react';
+import { LayoutPanel } from '../types';
+import { PANEL_LABELS, clampPanel } from '../layout';
+
+interface LayoutEditorProps {
+  panels: LayoutPanel[];
+  onChange: (panels: LayoutPanel[]) => void;
+  onDone: () => void;
+}
+
+// Rectangles snap to half a percent of the frame
+const SNAP = 0.005;
+const snap = (v: number) => Math.round(v / SNAP) * SNAP;
+
+interface Drag {
+  index: number;
+  mode: 'move' | 'resize';
+  startX: number;
+  startY: number;
+  panel: LayoutPanel;
+}
+
+// Overlay on the visualizer: drag a panel to move it, its corner to resize it
+const LayoutEditor: React.FC<LayoutEditorProps> = ({ panels, onChange, onDone }) => {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<Drag | null>(null);
+
+  const startDrag = (e: React.PointerEvent, index: number, mode: Drag['mode']) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { index, mode, startX: e.clientX, startY: e.clientY, panel: panels[index] };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const box = overlayRef.current?.getBoundingClientRect();
+    if (!drag || !box) return;
+    const dx = (e.clientX - drag.startX) / box.width;
+    const dy = (e.clientY - drag.startY) / box.height;
+    const p = drag.panel;
+    const next = drag.mode === 'move'
+      ? { ...p, x: snap(p.x + dx), y: snap(p.y + dy) }
+      : { ...p, w: snap(p.w + dx), h: snap(p.h + dy) };
+    onChange(panels.map((q, i) => i === drag.index ? clampPanel(next) : q));
+  };
+
+  const endDrag = () => { dragRef.current = null; };
+
+  return (
+    <div ref={overlayRef} className="absolute inset-0 z-40 select-none" onPointerMove={handlePointerMove} onPointerUp={endDrag} onPointerCancel={endDrag}>
+      {panels.map((panel, i) => (
+        <div
+          key={`${panel.kind}-${i}`}
+          className="absolute border border-dashed border-amber-400 bg-amber-400/10 cursor-move"
+          style={{ left: `${panel.x * 100}%`, top: `${panel.y * 100}%`, width: `${panel.w * 100}%`, height: `${panel.h * 100}%` }}
+          onPointerDown={(e) => startDrag(e, i, 'move')}
+        >
+          <div className="absolute top-0 left-0 flex items-center gap-1 bg-amber-400 text-black text-[9px] uppercase tracking-widest px-1">
+            {PANEL_LABELS[panel.kind]}
+            <span className="font-mono normal-case opacity-60">{Math.round(panel.w * 100)}×{Math.round(panel.h * 100)}</span>
+            <button onPointerDown={(e) => e.stopPropagation()} onClick={() => onChange(panels.filter((_, j) => j !== i))} className="hover:text-red-700" aria-label={`Remove ${PANEL_LABELS[panel.kind]}`}>
+              <X size={9}/>
+            </button>
+          </div>
+          <div className="absolute bottom-0 right-0 w-3 h-3 bg-amber-400 cursor-nwse-resize" onPointerDown={(e) => startDrag(e, i, 'resize')} />
+        </div>
+      ))}
+      <button onClick={onDone} className="absolute bottom-4 left-1/2 -translate-x-1/2 px-4 py-1.5 bg-amber-400 hover:bg-amber-300 text-black rounded-full text-[10px] uppercase tracking-widest shadow-xl">
+        Done
+      </button>
+    </div>
+  );
+};
+
+export default LayoutEditor;
@@ -0,0 +1,79 @@
+import React, { useEffect, useState } from 'react';
+import { Move, RotateCcw, Trash2 } from 'lucide-react';
+import { AspectRatio, LayoutPanel, LayoutPanelKind, NamedLayout } from '../types';
+import { LAYOUT_PRESETS, PANEL_LABELS, getDefaultPanel, isSameLayout, loadSavedLayouts, storeSavedLayouts } from '../layout';
+
+interface LayoutSettingsProps {
+  aspectRatio: AspectRatio;
+  layout: LayoutPanel[] | null;
+  editing: boolean;
+  onChange: (layout: LayoutPanel[] | null) => void;
+  onEditingChange: (editing: boolean) => void;
+}
+
+// Preset or saved layout for the current ratio, which panels it shows, and a library kept in the browser
+const LayoutSettings: React.FC<LayoutSettingsProps> = ({ aspectRatio, layout, editing, onChange, onEditingChange }) => {
+  const [saved, setSaved] = useState<NamedLayout[]>(loadSavedLayouts);
+  const [name, setName] = useState('');
+
+  useEffect(() => storeSavedLayouts(saved), [saved]);
+
+  const panels = layout ?? LAYOUT_PRESETS[aspectRatio];
+  const forRatio = saved.filter(l => l.aspectRatio === aspectRatio);
+
+  const togglePanel = (kind: LayoutPanelKind) => {
+    onChange(panels.some(p => p.kind === kind)
+      ? panels.filter(p => p.kind !== kind)
+      : [...panels, getDefaultPanel(aspectRatio, kind)]);
+  };
+
+  const saveLayout = () => {
+    const layoutName = name.trim() || `Layout ${forRatio.length + 1}`;
+    setSaved([...saved.filter(l => l.aspectRatio !== aspectRatio || l.name !== layoutName), { name: layoutName, aspectRatio, panels }]);
+    setName('');
+  };
+
+  const choiceClass = (selected: boolean) =>
+    `flex items-center rounded-md transition-all ${selected ? 'bg-white shadow-sm text-black' : 'text-stone-400 hover:text-stone-600'}`;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-1 p-1 bg-stone-100 rounded-lg">
+        <div className={choiceClass(layout === null)}>
+          <button onClick={() => onChange(null)} className="px-2 py-1 text-[10px] tracking-wider">Preset</button>
+        </div>
+        {forRatio.map(l => (
+          <div key={l.name} className={choiceClass(layout !== null && isSameLayout(l.panels, layout))}>
+            <button onClick={() => onChange(l.panels)} className="px-2 py-1 text-[10px] tracking-wider">{l.name}</button>
+            <button onClick={() => setSaved(saved.filter(s => s !== l))} className="pr-1.5 text-stone-300 hover:text-red-700" aria-label={`Delete ${l.name}`}><Trash2 size={9}/></button>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-1">
+        {(Object.keys(PANEL_LABELS) as LayoutPanelKind[]).map(kind => (
+          <label key={kind} className="flex items-center gap-2 text-[9px] uppercase tracking-widest text-stone-400 cursor-pointer">
+            <input type="checkbox" checked={panels.some(p => p.kind === kind)} onChange={() => togglePanel(kind)} className="accent-stone-800" />
+            {PANEL_LABELS[kind]}
+          </label>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <button onClick={() => onEditingChange(!editing)} className={`flex-1 flex items-center justify-center gap-1.5 py-1.5 rounded text-[10px] uppercase tracking-wider transition-colors ${editing ? 'bg-stone-800 text-white' : 'bg-stone-100 hover:bg-stone-200'}`}>
+          <Move size={11}/> {editing ? 'Editing' : 'Edit Layout'}
+        </button>
+        <button onClick={() => onChange(null)} disabled={layout === null} className="flex items-center justify-center gap-1.5 px-3 py-1.5 bg-stone-100 hover:bg-stone-200 rounded text-[10px] uppercase tracking-wider transition-colors disabled:opacity-40">
+          <RotateCcw size={11}/> Reset
+        </button>
+      </div>
+
+      <div className="flex gap-2">
+        <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="Layout name" className="flex-1 min-w-0 bg-transparent border-b border-stone-200 p-1 text-[10px] focus:outline-none" />
+        <button onClick={saveLayout} className="px-2 py-1 bg-stone-100 hover:bg-stone-200 rounded text-[10px] uppercase tracking-wider transition-colors">Save</button>
+      </div>
+    </div>
+  );
+};
+
+export default LayoutSettings;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { MidiDocument } from '../types';
+
+interface MidiInfoProps {
+  midi: MidiDocument;
+}
+
+// Tempo, meter and key summary of the loaded MIDI file
+const MidiInfo: React.FC<MidiInfoProps> = ({ midi }) => {
+  const bpms = midi.tempos.map(t => Math.round(t.bpm));
+  const minBpm = Math.min(...bpms);
+  const maxBpm = Math.max(...bpms);
+  const tempo = bpms.length === 0
+    ? '120 bpm'
+    : minBpm === maxBpm ? `${minBpm} bpm` : `${minBpm}–${maxBpm} bpm`;
+
+  const meters = [...new Set(midi.timeSignatures.map(ts => `${ts.numerator}/${ts.denominator}`))];
+  const keys = [...new Set(midi.keySignatures.map(k => `${k.key} ${k.scale}`))];
+
+  return (
+    <div className="mt-2 space-y-1 text-[9px] text-stone-500">
+      <div className="flex flex-wrap gap-x-3 gap-y-0.5 font-mono">
+        <span>♩ {tempo}{midi.tempos.length > 1 && ` (${midi.tempos.length} changes)`}</span>
+        <span>{meters.length > 0 ? meters.join(' · ') : '4/4'}</span>
+        {keys.length > 0 && <span>{keys.join(' · ')}</span>}
+      </div>
+    </div>
+  );
+};
+
+export default MidiInfo;
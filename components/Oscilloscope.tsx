@@ -1,44 +1,68 @@
 import React, { useRef, useEffect } from 'react';
-import { drawOscilloscope } from '../utils';
+import { ScopeMode, ScopeSource, ScopeSyncOptions, StereoAnalysers } from '../types';
+import { drawOscilloscope, getBufferScope, getLiveScope } from '../scope';
 
 interface OscilloscopeProps {
-  analyser: AnalyserNode | null;
+  analysers: StereoAnalysers | null;
+  audioBuffer: AudioBuffer | null;
+  source: ScopeSource;
+  mode: ScopeMode;
+  sync: ScopeSyncOptions;
   isPlaying: boolean;
+  currentTime: number;
   color: string;
   backgroundColor: string;
+  backgroundOpacity?: number; // below 1 the background layers show through
   width: number;
   height: number;
   lineWidth: number;
 }
 
 const Oscilloscope: React.FC<OscilloscopeProps> = ({
-  analyser,
+  analysers,
+  audioBuffer,
+  source,
+  mode,
+  sync,
   isPlaying,
+  currentTime,
   color,
   backgroundColor,
+  backgroundOpacity = 1,
   width,
   height,
   lineWidth
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const reqIdRef = useRef<number | undefined>(undefined);
+  // Read by the live loop so a new sync object doesn't restart it every frame
+  const syncRef = useRef(sync);
+  syncRef.current = sync;
+  const fromBuffer = source === 'buffer' && audioBuffer !== null;
 
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
 
     const dpr = window.devicePixelRatio || 1;
     canvas.width = width * dpr;
     canvas.height = height * dpr;
-    
-    ctx.setTransform(1, 0, 0, 1, 0, 0);
-    ctx.scale(dpr, dpr);
-    
+  }, [width, height]);
+
+  // Live mode: poll the analysers every animation frame
+  useEffect(() => {
+    if (fromBuffer) return;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
     const draw = () => {
       reqIdRef.current = requestAnimationFrame(draw);
-      drawOscilloscope(ctx, analyser, isPlaying, color, backgroundColor, width, height, lineWidth);
+      const samples = analysers && isPlaying ? getLiveScope(analysers, syncRef.current, mode) : null;
+      ctx.clearRect(0, 0, width, height);
+      drawOscilloscope(ctx, samples, mode, color, backgroundColor, width, height, lineWidth, backgroundOpacity);
     };
 
     draw();
@@ -46,9 +70,23 @@ const Oscilloscope: React.FC<OscilloscopeProps> = ({
     return () => {
       if (reqIdRef.current) cancelAnimationFrame(reqIdRef.current);
     };
-  }, [analyser, isPlaying, color, backgroundColor, width, height, lineWidth]);
+  }, [fromBuffer, analysers, isPlaying, mode, color, backgroundColor, width, height, lineWidth, backgroundOpacity]);
+
+  // Buffer mode: redraw whenever the time changes, playing or not
+  useEffect(() => {
+    if (!fromBuffer || !audioBuffer) return;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+    const samples = getBufferScope(audioBuffer, currentTime, sync, mode);
+    ctx.clearRect(0, 0, width, height);
+    drawOscilloscope(ctx, samples, mode, color, backgroundColor, width, height, lineWidth, backgroundOpacity);
+  }, [fromBuffer, audioBuffer, currentTime, sync, mode, color, backgroundColor, width, height, lineWidth, backgroundOpacity]);
 
   return <canvas ref={canvasRef} className="block w-full h-full" />;
 };
 
-export default Oscilloscope;
\ No newline at end of file
+export default Oscilloscope;
@@ -1,14 +1,23 @@
-import React, { useRef, useEffect } from 'react';
-import { NoteEvent } from '../types';
-import { drawPianoRoll } from '../utils';
+import React, { useRef, useEffect, useState } from 'react';
+import { NoteEvent, BeatMarker, SectionMarker, TrackSettings, PianoRollViewport, PianoRollOptions, NoteStyles, PianoRollWorkerMessage } from '../types';
+import { drawPianoRoll, canRenderInWorker } from '../pianoRoll';
 
 interface PianoRollProps {
   notes: NoteEvent[];
   currentTime: number;
   palette: string[]; // Array of track colors
   backgroundColor: string;
+  backgroundOpacity?: number; // below 1 the background layers show through
   width: number;
   height: number;
+  beats?: BeatMarker[];
+  markers?: SectionMarker[];
+  tracks?: TrackSettings;
+  viewport?: PianoRollViewport;
+  keyboard?: boolean;
+  voices?: PianoRollOptions['voices'];
+  styles?: NoteStyles;
+  useWorker?: boolean; // draw in pianoRollWorker.ts when the browser supports OffscreenCanvas
 }
 
 const PianoRoll: React.FC<PianoRollProps> = ({ 
@@ -16,31 +25,86 @@ const PianoRoll: React.FC<PianoRollProps> = ({
   currentTime, 
   palette,
   backgroundColor,
+  backgroundOpacity = 1,
   width,
-  height
+  height,
+  beats,
+  markers,
+  tracks,
+  viewport,
+  keyboard,
+  voices,
+  styles,
+  useWorker = false
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [worker, setWorker] = useState<Worker | null>(null);
+  const offscreen = useWorker && canRenderInWorker();
+
+  // A canvas can only be transferred once, so worker mode creates its own and drops it on cleanup
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!offscreen || !container) return;
+    const canvas = document.createElement('canvas');
+    canvas.className = 'block w-full h-full';
+    container.appendChild(canvas);
+
+    const rollWorker = new Worker(new URL('../pianoRollWorker.ts', import.meta.url), { type: 'module' });
+    const target = canvas.transferControlToOffscreen();
+    rollWorker.postMessage({ type: 'init', canvas: target } satisfies PianoRollWorkerMessage, [target]);
+    setWorker(rollWorker);
+
+    return () => {
+      rollWorker.terminate();
+      canvas.remove();
+      setWorker(null);
+    };
+  }, [offscreen]);
+
+  useEffect(() => {
+    worker?.postMessage({ type: 'notes', notes, analysis: voices?.analysis ?? null } satisfies PianoRollWorkerMessage);
+  }, [worker, notes, voices?.analysis]);
+
+  useEffect(() => {
+    worker?.postMessage({
+      type: 'scene',
+      palette,
+      backgroundColor,
+      width,
+      height,
+      dpr: window.devicePixelRatio || 1,
+      options: { beats, markers, tracks, viewport, keyboard, styles, backgroundOpacity, voices: voices && { positions: voices.positions, legend: voices.legend } }
+    } satisfies PianoRollWorkerMessage);
+  }, [worker, palette, backgroundColor, backgroundOpacity, width, height, beats, markers, tracks, viewport, keyboard, styles, voices?.positions, voices?.legend]);
+
+  useEffect(() => {
+    worker?.postMessage({ type: 'frame', time: currentTime } satisfies PianoRollWorkerMessage);
+  }, [worker, currentTime]);
 
   useEffect(() => {
     const canvas = canvasRef.current;
-    if (!canvas) return;
+    if (offscreen || !canvas) return;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
-    // Handle high DPI
+    // Handle high DPI; resizing clears the canvas, so only do it when the size changes
     const dpr = window.devicePixelRatio || 1;
-    canvas.width = width * dpr;
-    canvas.height = height * dpr;
+    if (canvas.width !== Math.round(width * dpr)) canvas.width = Math.round(width * dpr);
+    if (canvas.height !== Math.round(height * dpr)) canvas.height = Math.round(height * dpr);
     
     ctx.setTransform(1, 0, 0, 1, 0, 0);
     ctx.scale(dpr, dpr);
 
     // Use pure drawing function
-    drawPianoRoll(ctx, notes, currentTime, palette, backgroundColor, width, height);
+    ctx.clearRect(0, 0, width, height);
+    drawPianoRoll(ctx, notes, currentTime, palette, backgroundColor, width, height, { beats, markers, tracks, viewport, keyboard, voices, styles, backgroundOpacity });
 
-  }, [notes, currentTime, palette, backgroundColor, width, height]);
+  }, [offscreen, notes, currentTime, palette, backgroundColor, backgroundOpacity, width, height, beats, markers, tracks, viewport, keyboard, voices, styles]);
 
-  return <canvas ref={canvasRef} className="block w-full h-full" />;
+  return offscreen
+    ? <div ref={containerRef} className="block w-full h-full" />
+    : <canvas ref={canvasRef} className="block w-full h-full" />;
 };
 
-export default PianoRoll;
\ No newline at end of file
+export default PianoRoll;
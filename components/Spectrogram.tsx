@@ -0,0 +1,103 @@
+import React, { useRef, useEffect } from 'react';
+import { ScopeSource } from '../types';
+import {
+  drawSpectrogram,
+  getBufferSpectrogramColumn,
+  getLiveKeyBands,
+  SPECTROGRAM_COLUMNS_PER_SEC,
+  SPECTROGRAM_WINDOW
+} from '../spectrum';
+
+interface SpectrogramProps {
+  analyser: AnalyserNode | null;
+  audioBuffer: AudioBuffer | null;
+  source: ScopeSource;
+  isPlaying: boolean;
+  currentTime: number;
+  color: string;
+  backgroundColor: string;
+  backgroundOpacity?: number; // below 1 the background layers show through
+  width: number;
+  height: number;
+}
+
+const Spectrogram: React.FC<SpectrogramProps> = ({
+  analyser,
+  audioBuffer,
+  source,
+  isPlaying,
+  currentTime,
+  color,
+  backgroundColor,
+  backgroundOpacity = 1,
+  width,
+  height
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const reqIdRef = useRef<number | undefined>(undefined);
+  // Live mode records analyser columns as they are played, keyed like buffer columns
+  const historyRef = useRef(new Map<number, Float32Array>());
+  const timeRef = useRef(currentTime);
+  timeRef.current = currentTime;
+  const fromBuffer = source === 'buffer' && audioBuffer !== null;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+  }, [width, height]);
+
+  useEffect(() => {
+    historyRef.current.clear();
+  }, [analyser]);
+
+  // Live mode: record and draw every animation frame while playing
+  useEffect(() => {
+    if (fromBuffer) return;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+    const history = historyRef.current;
+    const draw = () => {
+      const index = Math.floor(timeRef.current * SPECTROGRAM_COLUMNS_PER_SEC);
+      if (analyser && isPlaying) {
+        history.set(index, getLiveKeyBands(analyser));
+        for (const key of history.keys()) {
+          if (key <= index - SPECTROGRAM_WINDOW * SPECTROGRAM_COLUMNS_PER_SEC || key > index) history.delete(key);
+        }
+        reqIdRef.current = requestAnimationFrame(draw);
+      }
+      ctx.clearRect(0, 0, width, height);
+      drawSpectrogram(ctx, i => history.get(i), timeRef.current, color, backgroundColor, width, height, backgroundOpacity);
+    };
+
+    draw();
+
+    return () => {
+      if (reqIdRef.current) cancelAnimationFrame(reqIdRef.current);
+    };
+  }, [fromBuffer, analyser, isPlaying, color, backgroundColor, width, height, backgroundOpacity]);
+
+  // Buffer mode: redraw whenever the time changes, playing or not
+  useEffect(() => {
+    if (!fromBuffer || !audioBuffer) return;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+    ctx.clearRect(0, 0, width, height);
+    drawSpectrogram(ctx, i => getBufferSpectrogramColumn(audioBuffer, i), currentTime, color, backgroundColor, width, height, backgroundOpacity);
+  }, [fromBuffer, audioBuffer, currentTime, color, backgroundColor, width, height, backgroundOpacity]);
+
+  return <canvas ref={canvasRef} className="block w-full h-full" />;
+};
+
+export default Spectrogram;
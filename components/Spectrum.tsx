@@ -0,0 +1,86 @@
+import React, { useRef, useEffect } from 'react';
+import { ScopeSource, SpectrumStyle } from '../types';
+import { drawSpectrum, getKeyBandsAt, getLiveKeyBands } from '../spectrum';
+
+interface SpectrumProps {
+  analyser: AnalyserNode | null;
+  audioBuffer: AudioBuffer | null;
+  source: ScopeSource;
+  style: SpectrumStyle;
+  isPlaying: boolean;
+  currentTime: number;
+  color: string;
+  backgroundColor: string;
+  backgroundOpacity?: number; // below 1 the background layers show through
+  width: number;
+  height: number;
+  lineWidth: number;
+}
+
+const Spectrum: React.FC<SpectrumProps> = ({
+  analyser,
+  audioBuffer,
+  source,
+  style,
+  isPlaying,
+  currentTime,
+  color,
+  backgroundColor,
+  backgroundOpacity = 1,
+  width,
+  height,
+  lineWidth
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const reqIdRef = useRef<number | undefined>(undefined);
+  const fromBuffer = source === 'buffer' && audioBuffer !== null;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+  }, [width, height]);
+
+  // Live mode: poll the analyser every animation frame
+  useEffect(() => {
+    if (fromBuffer) return;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+    const draw = () => {
+      reqIdRef.current = requestAnimationFrame(draw);
+      const bands = analyser && isPlaying ? getLiveKeyBands(analyser) : null;
+      ctx.clearRect(0, 0, width, height);
+      drawSpectrum(ctx, bands, style, color, backgroundColor, width, height, lineWidth, backgroundOpacity);
+    };
+
+    draw();
+
+    return () => {
+      if (reqIdRef.current) cancelAnimationFrame(reqIdRef.current);
+    };
+  }, [fromBuffer, analyser, isPlaying, style, color, backgroundColor, width, height, lineWidth, backgroundOpacity]);
+
+  // Buffer mode: redraw whenever the time changes, playing or not
+  useEffect(() => {
+    if (!fromBuffer || !audioBuffer) return;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+    ctx.clearRect(0, 0, width, height);
+    drawSpectrum(ctx, getKeyBandsAt(audioBuffer, currentTime), style, color, backgroundColor, width, height, lineWidth, backgroundOpacity);
+  }, [fromBuffer, audioBuffer, currentTime, style, color, backgroundColor, width, height, lineWidth, backgroundOpacity]);
+
+  return <canvas ref={canvasRef} className="block w-full h-full" />;
+};
+
+export default Spectrum;
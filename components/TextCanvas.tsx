@@ -0,0 +1,45 @@
+import React, { useRef, useEffect, useState } from 'react';
+import { TextBlock, drawTextBlock, loadTextFont } from '../text';
+
+interface TextCanvasProps {
+  block: TextBlock | null;
+  color: string;
+  width: number;
+  height: number;
+  blend?: boolean; // difference blend over whatever is behind the panel
+}
+
+// Title, credits or a caption drawn the same way as in the export
+const TextCanvas: React.FC<TextCanvasProps> = ({ block, color, width, height, blend = false }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const font = block?.font;
+  const [loadedFont, setLoadedFont] = useState<string | null>(null);
+
+  // Fitting measures the text, so redraw once the web font has arrived
+  useEffect(() => {
+    if (!font) return;
+    let cancelled = false;
+    const done = () => { if (!cancelled) setLoadedFont(font); };
+    // A face that fails to load is reported beside the font picker; draw with the fallback meanwhile
+    loadTextFont(font).then(done, done);
+    return () => { cancelled = true; };
+  }, [font]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    if (canvas.width !== Math.round(width * dpr)) canvas.width = Math.round(width * dpr);
+    if (canvas.height !== Math.round(height * dpr)) canvas.height = Math.round(height * dpr);
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+
+    ctx.clearRect(0, 0, width, height);
+    if (block) drawTextBlock(ctx, block, color, width, height);
+  }, [block, color, width, height, loadedFont]);
+
+  return <canvas ref={canvasRef} className="block w-full h-full" style={{ mixBlendMode: blend ? 'difference' : undefined }} />;
+};
+
+export default TextCanvas;
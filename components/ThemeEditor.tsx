@@ -0,0 +1,122 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, X, Trash2, Download, Upload } from 'lucide-react';
+import { NamedTheme, ThemePalette } from '../types';
+import { THEME_PRESETS, THEME_EXTENSION, isSameTheme, loadSavedThemes, parseTheme, serializeTheme, storeSavedThemes } from '../themes';
+import { downloadBlob } from '../videoExport';
+import ThemeSwatch from './ThemeSwatch';
+
+interface ThemeEditorProps {
+  theme: ThemePalette;
+  onChange: (theme: ThemePalette) => void;
+}
+
+// Hand-picked palette: presets, one colour picker per role, and a library of saved themes kept in the browser
+const ThemeEditor: React.FC<ThemeEditorProps> = ({ theme, onChange }) => {
+  const [saved, setSaved] = useState<NamedTheme[]>(loadSavedThemes);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => storeSavedThemes(saved), [saved]);
+
+  const setColor = (key: 'background' | 'scope' | 'text', color: string) => onChange({ ...theme, [key]: color });
+  const setTrack = (i: number, color: string) => onChange({ ...theme, tracks: theme.tracks.map((c, j) => j === i ? color : c) });
+
+  const saveTheme = () => {
+    const themeName = name.trim() || `Theme ${saved.length + 1}`;
+    setSaved([...saved.filter(t => t.name !== themeName), { name: themeName, theme }]);
+    setName('');
+  };
+
+  const exportTheme = () => {
+    const themeName = name.trim() || saved.find(t => isSameTheme(t.theme, theme))?.name || 'theme';
+    const blob = new Blob([serializeTheme({ name: themeName, theme })], { type: 'application/json' });
+    downloadBlob(blob, `${themeName.replace(/[^\w\-]+/g, '_')}${THEME_EXTENSION}`);
+  };
+
+  const importTheme = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      setError(null);
+      const imported = parseTheme(await file.text());
+      setSaved([...saved.filter(t => t.name !== imported.name), imported]);
+      onChange(imported.theme);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const presetButton = (preset: NamedTheme, onDelete?: () => void) => {
+    const selected = isSameTheme(preset.theme, theme);
+    return (
+      <div key={preset.name} className={`flex items-center rounded-md transition-all ${selected ? 'bg-white shadow-sm text-black' : 'text-stone-400 hover:text-stone-600'}`}>
+        <button onClick={() => onChange(preset.theme)} className="flex items-center gap-1.5 px-2 py-1 text-[10px] tracking-wider">
+          <ThemeSwatch theme={preset.theme} /> {preset.name}
+        </button>
+        {onDelete && (
+          <button onClick={onDelete} className="pr-1.5 text-stone-300 hover:text-red-700" aria-label={`Delete ${preset.name}`}><Trash2 size={9}/></button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-1 p-1 bg-stone-100 rounded-lg">
+        {THEME_PRESETS.map(preset => presetButton(preset))}
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        {(['background', 'scope', 'text'] as const).map(key => (
+          <label key={key} className="flex items-center gap-1.5 text-[9px] uppercase tracking-widest text-stone-400 cursor-pointer">
+            <input type="color" value={theme[key]} onChange={(e) => setColor(key, e.target.value)} className="w-4 h-4 p-0 border-0 rounded-sm cursor-pointer bg-transparent shrink-0" />
+            {key === 'background' ? 'Bg' : key}
+          </label>
+        ))}
+      </div>
+
+      <div className="space-y-1">
+        <span className="text-[9px] uppercase tracking-widest text-stone-400">Tracks</span>
+        <div className="flex flex-wrap items-center gap-1.5">
+          {theme.tracks.map((color, i) => (
+            <span key={i} className="relative group">
+              <input type="color" value={color} onChange={(e) => setTrack(i, e.target.value)} className="w-5 h-5 p-0 border-0 rounded-sm cursor-pointer bg-transparent block" aria-label={`Track ${i + 1} colour`} />
+              {theme.tracks.length > 1 && (
+                <button onClick={() => onChange({ ...theme, tracks: theme.tracks.filter((_, j) => j !== i) })} className="absolute -top-1.5 -right-1.5 hidden group-hover:flex w-3 h-3 items-center justify-center rounded-full bg-stone-700 text-white" aria-label={`Remove track ${i + 1} colour`}>
+                  <X size={7}/>
+                </button>
+              )}
+            </span>
+          ))}
+          <button onClick={() => onChange({ ...theme, tracks: [...theme.tracks, theme.tracks[theme.tracks.length - 1]] })} className="w-5 h-5 flex items-center justify-center rounded-sm bg-stone-100 text-stone-400 hover:text-black" aria-label="Add track colour">
+            <Plus size={10}/>
+          </button>
+        </div>
+      </div>
+
+      {saved.length > 0 && (
+        <div className="flex flex-wrap gap-1 p-1 bg-stone-100 rounded-lg">
+          {saved.map(t => presetButton(t, () => setSaved(saved.filter(s => s !== t))))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="Theme name" className="flex-1 min-w-0 bg-transparent border-b border-stone-200 p-1 text-[10px] focus:outline-none" />
+        <button onClick={saveTheme} className="px-2 py-1 bg-stone-100 hover:bg-stone-200 rounded text-[10px] uppercase tracking-wider transition-colors">Save</button>
+      </div>
+      <div className="flex gap-2">
+        <button onClick={exportTheme} className="flex-1 flex items-center justify-center gap-1.5 py-1.5 bg-stone-100 hover:bg-stone-200 rounded text-[10px] uppercase tracking-wider transition-colors">
+          <Download size={11}/> Export
+        </button>
+        <label className="flex-1 flex items-center justify-center gap-1.5 py-1.5 bg-stone-100 hover:bg-stone-200 rounded text-[10px] uppercase tracking-wider transition-colors cursor-pointer">
+          <Upload size={11}/> Import
+          <input type="file" accept={`${THEME_EXTENSION},application/json`} onChange={importTheme} className="hidden"/>
+        </label>
+      </div>
+      {error && <p className="text-[10px] text-red-700 text-center break-words">{error}</p>}
+    </div>
+  );
+};
+
+export default ThemeEditor;
@@ -0,0 +1,16 @@
+import React from 'react';
+import { ThemePalette } from '../types';
+
+interface ThemeSwatchProps {
+  theme: ThemePalette;
+  className?: string; // size, 'w-5 h-3' by default
+}
+
+// The background with a stripe per track colour
+const ThemeSwatch: React.FC<ThemeSwatchProps> = ({ theme, className = 'w-5 h-3' }) => (
+  <span className={`inline-flex gap-px p-0.5 rounded-sm overflow-hidden border border-black/10 shrink-0 ${className}`} style={{ backgroundColor: theme.background }}>
+    {theme.tracks.map((c, i) => <span key={i} className="flex-1 rounded-[1px]" style={{ backgroundColor: c }} />)}
+  </span>
+);
+
+export default ThemeSwatch;
@@ -0,0 +1,107 @@
+import React, { useRef } from 'react';
+import { LoopRegion } from '../types';
+import { formatTime, isLoopActive } from '../utils';
+
+interface TimelineProps {
+  duration: number;      // full scrubbable length in seconds
+  audioDuration: number; // 0 when no audio is loaded
+  midiRange: { start: number; end: number } | null;
+  currentTime: number;
+  loop: LoopRegion;
+  onSeek: (time: number) => void;
+  onLoopChange: (loop: LoopRegion) => void;
+}
+
+// Click or drag to seek, shift-drag to draw a loop region
+const Timeline: React.FC<TimelineProps> = ({
+  duration,
+  audioDuration,
+  midiRange,
+  currentTime,
+  loop,
+  onSeek,
+  onLoopChange
+}) => {
+  const trackRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ mode: 'seek' | 'loop'; anchor: number } | null>(null);
+
+  const pct = (t: number) => `${duration > 0 ? Math.min(100, Math.max(0, (t / duration) * 100)) : 0}%`;
+
+  const timeAt = (clientX: number) => {
+    const rect = trackRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return 0;
+    return Math.min(1, Math.max(0, (clientX - rect.left) / rect.width)) * duration;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (duration <= 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const t = timeAt(e.clientX);
+    if (e.shiftKey) {
+      dragRef.current = { mode: 'loop', anchor: t };
+      onLoopChange({ start: t, end: t, enabled: true });
+    } else {
+      dragRef.current = { mode: 'seek', anchor: t };
+      onSeek(t);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const t = timeAt(e.clientX);
+    if (drag.mode === 'loop') {
+      onLoopChange({ start: Math.min(drag.anchor, t), end: Math.max(drag.anchor, t), enabled: true });
+    } else {
+      onSeek(t);
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    dragRef.current = null;
+  };
+
+  const hasLoop = loop.end > loop.start;
+
+  return (
+    <div className="space-y-1 select-none">
+      <div
+        ref={trackRef}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        className="relative h-6 bg-stone-100 rounded cursor-pointer overflow-hidden touch-none"
+      >
+        {audioDuration > 0 && (
+          <div className="absolute top-1 h-1.5 bg-stone-300 rounded-full" style={{ left: 0, width: pct(audioDuration) }} title="Audio" />
+        )}
+        {midiRange && (
+          <div
+            className="absolute bottom-1 h-1.5 bg-stone-500 rounded-full"
+            style={{ left: pct(midiRange.start), width: `calc(${pct(midiRange.end)} - ${pct(midiRange.start)})` }}
+            title="MIDI"
+          />
+        )}
+        {hasLoop && (
+          <div
+            className={`absolute inset-y-0 border-x ${isLoopActive(loop) ? 'bg-amber-400/30 border-amber-500' : 'bg-stone-400/20 border-stone-400'}`}
+            style={{ left: pct(loop.start), width: `calc(${pct(loop.end)} - ${pct(loop.start)})` }}
+          />
+        )}
+        <div className="absolute inset-y-0 w-px bg-stone-900" style={{ left: pct(currentTime) }} />
+      </div>
+      <div className="flex justify-between text-[9px] font-mono text-stone-500">
+        <span>{formatTime(currentTime)}</span>
+        {hasLoop && (
+          <span className={isLoopActive(loop) ? 'text-amber-600' : 'text-stone-400'}>
+            ⟲ {formatTime(loop.start)}–{formatTime(loop.end)}
+          </span>
+        )}
+        <span>{formatTime(duration)}</span>
+      </div>
+    </div>
+  );
+};
+
+export default Timeline;
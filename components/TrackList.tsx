@@ -0,0 +1,83 @@
+import React from 'react';
+import { Eye, EyeOff, ChevronUp, ChevronDown, RotateCcw } from 'lucide-react';
+import { TrackRow, TrackSettings, TrackStyle } from '../types';
+import { DEFAULT_TRACK_STYLE, getThemeTrackColor } from '../utils';
+
+interface TrackListProps {
+  rows: TrackRow[];
+  tracks: TrackSettings;
+  palette: string[];
+  onChange: (tracks: TrackSettings) => void;
+}
+
+// Voices listed front to back: visibility, solo, colour and drawing order
+const TrackList: React.FC<TrackListProps> = ({ rows, tracks, palette, onChange }) => {
+  // Back-to-front order of the rows that exist; unlisted voices sit underneath in file order
+  const keys = rows.map(r => r.key);
+  const listed = tracks.order.filter(k => keys.includes(k));
+  const backToFront = [...keys.filter(k => !listed.includes(k)), ...listed];
+  const frontToBack = [...backToFront].reverse();
+
+  const styleOf = (key: string) => tracks.styles[key] ?? DEFAULT_TRACK_STYLE;
+  const anySolo = rows.some(r => styleOf(r.key).solo);
+
+  const setStyle = (key: string, patch: Partial<TrackStyle>) => {
+    onChange({ ...tracks, styles: { ...tracks.styles, [key]: { ...styleOf(key), ...patch } } });
+  };
+
+  // `direction` 1 brings the voice one layer forward, -1 sends it back
+  const move = (key: string, direction: 1 | -1) => {
+    const order = [...backToFront];
+    const i = order.indexOf(key);
+    const j = i + direction;
+    if (j < 0 || j >= order.length) return;
+    [order[i], order[j]] = [order[j], order[i]];
+    onChange({ ...tracks, order });
+  };
+
+  if (rows.length === 0) return null;
+
+  return (
+    <ul className="space-y-1">
+      {frontToBack.map((key, i) => {
+        const row = rows.find(r => r.key === key)!;
+        const style = styleOf(key);
+        const themeColor = getThemeTrackColor(rows.indexOf(row), palette);
+        const shown = anySolo ? style.solo : style.visible;
+
+        return (
+          <li key={key} className={`flex items-center gap-1.5 text-[10px] ${shown ? 'text-stone-700' : 'text-stone-300'}`}>
+            <input
+              type="color"
+              value={style.color ?? themeColor}
+              onChange={(e) => setStyle(key, { color: e.target.value })}
+              className="w-4 h-4 p-0 border-0 rounded-sm cursor-pointer bg-transparent shrink-0"
+              aria-label={`${row.name} colour`}
+            />
+            {style.color && (
+              <button onClick={() => setStyle(key, { color: null })} className="text-stone-300 hover:text-stone-600" aria-label="Use theme colour">
+                <RotateCcw size={9}/>
+              </button>
+            )}
+            <span className="flex-1 truncate" title={row.name}>{row.name}</span>
+            <span className="font-mono text-[9px] text-stone-400">{row.noteCount}</span>
+            <button onClick={() => setStyle(key, { visible: !style.visible })} className="p-0.5 hover:text-black" aria-label={style.visible ? 'Hide' : 'Show'}>
+              {style.visible ? <Eye size={11}/> : <EyeOff size={11}/>}
+            </button>
+            <button
+              onClick={() => setStyle(key, { solo: !style.solo })}
+              className={`w-4 h-4 text-[8px] font-bold rounded-sm ${style.solo ? 'bg-amber-400 text-black' : 'bg-stone-100 text-stone-400 hover:text-black'}`}
+              aria-label="Solo"
+            >S</button>
+            <div className="flex flex-col">
+              <button onClick={() => move(key, 1)} disabled={i === 0} className="disabled:opacity-20 hover:text-black" aria-label="Bring forward"><ChevronUp size={9}/></button>
+              <button onClick={() => move(key, -1)} disabled={i === frontToBack.length - 1} className="disabled:opacity-20 hover:text-black" aria-label="Send backward"><ChevronDown size={9}/></button>
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default TrackList;
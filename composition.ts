@@ -0,0 +1,218 @@
+import { AnalysisView, AppSettings, MidiDocument, ThemePalette } from './types';
+import { drawPianoRoll, getPianoRollViewport } from './pianoRoll';
+import { getVoiceOptions } from './tintinnabuli';
+import { drawOscilloscope, getBufferScope, getScopeSync } from './scope';
+import { drawBackgroundLayers } from './background';
+import { CoverMotion, getCoverMotion, getTitleOpacity } from './reactive';
+import { getLayoutPanels, getPanelCanvasSize } from './layout';
+import { drawTextBlock, getCaptionBlock, getCreditsBlock } from './text';
+import { getLyricBlock, getSectionMarkers } from './lyrics';
+import { drawSpectrogram, drawSpectrum, getBufferSpectrogramColumn, getKeyBandsAt } from './spectrum';
+
+// Everything needed to paint one frame of the video, independent of React state
+export interface CompositionState {
+  settings: AppSettings;
+  theme: ThemePalette;
+  midi: MidiDocument;
+  audioBuffer: AudioBuffer | null;
+  coverImage: HTMLImageElement | null;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+// Length of the render: the audio if there is any, otherwise the end of the last note
+export const getCompositionDuration = (state: Pick<CompositionState, 'settings' | 'midi' | 'audioBuffer'>) => {
+  if (state.audioBuffer) return state.audioBuffer.duration;
+  const offset = state.settings.offsetMs / 1000;
+  return state.midi.notes.reduce((end, n) => Math.max(end, n.startTime + n.duration - offset), 0);
+};
+
+export const COVER_GLOW_OPACITY = 0.8;
+
+const drawCover = (
+  ctx: CanvasRenderingContext2D,
+  image: HTMLImageElement | null,
+  settings: AppSettings,
+  theme: ThemePalette,
+  rect: Rect,
+  motion: CoverMotion
+) => {
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(rect.x, rect.y, rect.w, rect.h);
+  ctx.clip();
+  ctx.fillStyle = 'rgba(120, 113, 108, 0.1)';
+  ctx.fillRect(rect.x, rect.y, rect.w, rect.h);
+
+  if (image) {
+    // object-fit: cover, then translate(pan%) scale(motion) scale(zoom) translateY(offset%) around the centre
+    const cx = rect.x + rect.w / 2;
+    const cy = rect.y + rect.h / 2;
+    const zoom = settings.imageZoom * motion.scale;
+    ctx.save();
+    ctx.translate(cx + motion.x * rect.w, cy + motion.y * rect.h);
+    ctx.scale(zoom, zoom);
+    ctx.translate(-cx, -cy + (settings.imageOffsetY / 100) * rect.h);
+
+    const scale = Math.max(rect.w / image.naturalWidth, rect.h / image.naturalHeight);
+    const sw = rect.w / scale;
+    const sh = rect.h / scale;
+    ctx.drawImage(
+      image,
+      (image.naturalWidth - sw) / 2, (image.naturalHeight - sh) / 2, sw, sh,
+      rect.x, rect.y, rect.w, rect.h
+    );
+    ctx.restore();
+
+    // Same edge glow as the live overlay: radial-gradient(closest-side, transparent 60%, color)
+    if (motion.glow > 0) {
+      const radius = Math.min(rect.w, rect.h) / 2;
+      const gradient = ctx.createRadialGradient(cx, cy, 0, cx, cy, radius);
+      gradient.addColorStop(0.6, 'transparent');
+      gradient.addColorStop(1, theme.tracks[0]);
+      ctx.globalAlpha = motion.glow * COVER_GLOW_OPACITY;
+      ctx.fillStyle = gradient;
+      ctx.fillRect(rect.x, rect.y, rect.w, rect.h);
+    }
+  } else {
+    ctx.globalAlpha = 0.1;
+    ctx.fillStyle = theme.text;
+    ctx.font = `italic ${Math.round(rect.h / 18)}px "Cormorant Garamond", serif`;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText('COVER', rect.x + rect.w / 2, rect.y + rect.h / 2);
+  }
+  ctx.restore();
+};
+
+// Draws a panel at its native canvas size, stretched into `rect` like the live <canvas> elements
+const drawPanel = (
+  ctx: CanvasRenderingContext2D,
+  rect: Rect,
+  nativeW: number,
+  nativeH: number,
+  paint: () => void
+) => {
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(rect.x, rect.y, rect.w, rect.h);
+  ctx.clip();
+  ctx.translate(rect.x, rect.y);
+  ctx.scale(rect.w / nativeW, rect.h / nativeH);
+  paint();
+  ctx.restore();
+};
+
+// Fills an analysis panel: `settings.analysisView` for the scope panel, the spectrogram for its own panel
+const drawAnalysis = (
+  ctx: CanvasRenderingContext2D,
+  state: CompositionState,
+  view: AnalysisView,
+  currentTime: number,
+  rect: Rect,
+  nativeW: number,
+  nativeH: number
+) => {
+  const { settings, theme, midi: { notes }, audioBuffer } = state;
+
+  const paintScope = (r: Rect, w: number, h: number) => drawPanel(ctx, r, w, h, () => {
+    const sync = getScopeSync(settings, notes, currentTime + settings.offsetMs / 1000);
+    const samples = audioBuffer ? getBufferScope(audioBuffer, currentTime, sync, settings.scopeMode) : null;
+    drawOscilloscope(ctx, samples, settings.scopeMode, theme.scope, theme.background, w, h, settings.scopeLineWidth, settings.background.panelOpacity);
+  });
+
+  const paintSpectrogram = (r: Rect, w: number, h: number) => drawPanel(ctx, r, w, h, () => {
+    const getColumn = (i: number) => audioBuffer ? getBufferSpectrogramColumn(audioBuffer, i) : undefined;
+    drawSpectrogram(ctx, getColumn, currentTime, theme.scope, theme.background, w, h, settings.background.panelOpacity);
+  });
+
+  switch (view) {
+    case 'spectrum':
+      drawPanel(ctx, rect, nativeW, nativeH, () => {
+        const bands = audioBuffer ? getKeyBandsAt(audioBuffer, currentTime) : null;
+        drawSpectrum(ctx, bands, settings.spectrumStyle, theme.scope, theme.background, nativeW, nativeH, settings.scopeLineWidth, settings.background.panelOpacity);
+      });
+      break;
+    case 'spectrogram':
+      paintSpectrogram(rect, nativeW, nativeH);
+      break;
+    case 'scope+spectrogram': {
+      const half = { ...rect, w: rect.w / 2 };
+      paintScope(half, nativeW / 2, nativeH);
+      paintSpectrogram({ ...half, x: rect.x + half.w }, nativeW / 2, nativeH);
+      break;
+    }
+    default:
+      paintScope(rect, nativeW, nativeH);
+  }
+};
+
+// Paints the whole visualizer for the given audio time. Deterministic: only depends on its arguments.
+export const drawComposition = (
+  ctx: CanvasRenderingContext2D,
+  state: CompositionState,
+  currentTime: number,
+  width: number,
+  height: number
+) => {
+  const { settings, theme, midi, coverImage } = state;
+
+  ctx.save();
+  drawBackgroundLayers(ctx, settings.background, theme, coverImage, currentTime, width, height);
+
+  const motion = getCoverMotion(settings.reactions, state.audioBuffer, midi, currentTime, settings.offsetMs);
+  const titleOpacity = getTitleOpacity(settings.reactions, currentTime, getCompositionDuration(state));
+
+  for (const panel of getLayoutPanels(settings)) {
+    const rect = { x: panel.x * width, y: panel.y * height, w: panel.w * width, h: panel.h * height };
+    const native = getPanelCanvasSize(panel, settings.aspectRatio);
+
+    switch (panel.kind) {
+      case 'piano':
+        drawPanel(ctx, rect, native.w, native.h, () => {
+          drawPianoRoll(ctx, midi.notes, currentTime + settings.offsetMs / 1000, theme.tracks, theme.background, native.w, native.h, {
+            beats: settings.showBeatGrid ? midi.beats : undefined,
+            markers: settings.showMarkers ? getSectionMarkers(midi) : undefined,
+            tracks: settings.tracks,
+            viewport: getPianoRollViewport(settings, midi),
+            keyboard: settings.showKeyboard,
+            voices: getVoiceOptions(settings, midi),
+            styles: settings.noteStyles,
+            backgroundOpacity: settings.background.panelOpacity
+          });
+        });
+        break;
+      case 'scope':
+        drawAnalysis(ctx, state, settings.analysisView, currentTime, rect, native.w, native.h);
+        break;
+      case 'spectrogram':
+        drawAnalysis(ctx, state, 'spectrogram', currentTime, rect, native.w, native.h);
+        break;
+      case 'cover':
+        drawCover(ctx, coverImage, settings, theme, rect, motion);
+        break;
+      case 'title':
+        drawPanel(ctx, rect, native.w, native.h, () => {
+          if (panel.blend) ctx.globalCompositeOperation = 'difference';
+          drawTextBlock(ctx, getCreditsBlock(settings, titleOpacity), theme.text, native.w, native.h);
+        });
+        break;
+      case 'lyrics': {
+        const lyric = getLyricBlock(settings, midi, currentTime);
+        if (lyric) drawPanel(ctx, rect, native.w, native.h, () => drawTextBlock(ctx, lyric, theme.text, native.w, native.h));
+        break;
+      }
+      case 'captions': {
+        const caption = getCaptionBlock(settings, currentTime);
+        if (caption) drawPanel(ctx, rect, native.w, native.h, () => drawTextBlock(ctx, caption, theme.text, native.w, native.h));
+        break;
+      }
+    }
+  }
+  ctx.restore();
+};
@@ -0,0 +1,228 @@
+import { unzipSync } from 'fflate';
+import { ImportKind, ImportResult, MidiDocument } from './types';
+import { parseMidi, loadImage } from './utils';
+import { ScoreImport, createScoreDocument } from './notation';
+import { parseMusicXml, readMxl } from './musicxml';
+import { parseAbc } from './abc';
+
+// Zero-length notes get this length so they still show on the piano roll
+const MIN_NOTE_SECONDS = 0.05;
+const DRUM_CHANNEL = 9;
+// Below this peak the audio counts as silent
+const SILENCE_PEAK = 1e-4;
+// Covers smaller than this look soft in a 1080p frame
+const MIN_COVER_SIZE = 720;
+
+const failure = <T>(errors: string[], warnings: string[] = []): ImportResult<T> => ({ value: null, errors, warnings });
+
+const errorMessage = (e: unknown) => e instanceof Error ? e.message : String(e);
+
+const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`;
+
+const KIND_LABELS: Record<ImportKind, string> = {
+  midi: 'a MIDI file',
+  score: 'a score',
+  audio: 'an audio file',
+  image: 'an image',
+  project: 'a zip archive'
+};
+
+// --- DETECTION ---
+
+// Short tags only: spreading a large array into fromCharCode overflows the stack
+const ascii = (bytes: Uint8Array, start: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(start, start + length));
+
+// Bytes read to recognise a file: enough to get past an XML declaration and doctype
+const SNIFF_BYTES = 1024;
+
+const hasUtf16Bom = (bytes: Uint8Array) =>
+  (bytes[0] === 0xff && bytes[1] === 0xfe) || (bytes[0] === 0xfe && bytes[1] === 0xff);
+
+// UTF-8 unless a byte order mark says UTF-16
+const decodeText = (bytes: Uint8Array) => {
+  const encoding = bytes[0] === 0xff && bytes[1] === 0xfe ? 'utf-16le' : bytes[0] === 0xfe && bytes[1] === 0xff ? 'utf-16be' : 'utf-8';
+  return new TextDecoder(encoding).decode(bytes);
+};
+
+// Scores are text: MusicXML by its root element, ABC by a leading %abc or X: (reference number) line,
+// after any ordinary % comment lines
+const isScoreText = (bytes: Uint8Array) => {
+  const text = decodeText(bytes).replace(/^(\ufeff|\s)+/, '');
+  return /<score-(partwise|timewise)[\s>]/.test(text) || /^(%abc|X:)/.test(text.replace(/^(%(?!abc).*|\s)+/, ''));
+};
+
+// Magic numbers of the formats the app reads (or that browsers decode); null when nothing matches
+export const sniffFileKind = (bytes: Uint8Array): ImportKind | null => {
+  const tag = ascii(bytes, 0, 4);
+  const form = ascii(bytes, 8, 4);
+
+  if (tag === 'MThd') return 'midi';
+  if (tag === 'RIFF') return form === 'RMID' ? 'midi' : form === 'WAVE' ? 'audio' : form === 'WEBP' ? 'image' : null;
+  if (tag === 'FORM' && (form === 'AIFF' || form === 'AIFC')) return 'audio';
+  if (tag === 'fLaC' || tag === 'OggS' || tag.startsWith('ID3')) return 'audio';
+  // WebM / Matroska
+  if (bytes[0] === 0x1a && bytes[1] === 0x45 && bytes[2] === 0xdf && bytes[3] === 0xa3) return 'audio';
+  // ISO media: AVIF and HEIF are images, anything else (m4a, mp4) is played for its audio
+  if (ascii(bytes, 4, 4) === 'ftyp') return /^(avif|avis|heic|heix|mif1)$/.test(form) ? 'image' : 'audio';
+  if (tag === '\x89PNG' || tag.startsWith('GIF8') || tag.startsWith('BM')) return 'image';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image';
+  // UTF-16 text; its little-endian byte order mark would pass for an MPEG frame sync below
+  if (hasUtf16Bom(bytes)) return isScoreText(bytes.subarray(0, SNIFF_BYTES)) ? 'score' : null;
+  // MPEG audio frame sync (mp3 without ID3 tag, ADTS AAC); checked after JPEG, which also starts with 0xFF
+  if (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0) return 'audio';
+  if (tag === 'PK\x03\x04') return 'project';
+  if (isScoreText(bytes.subarray(0, SNIFF_BYTES))) return 'score';
+  return null;
+};
+
+// Compressed MusicXML has a META-INF/container.xml; projects have a manifest.json
+const isMxl = (bytes: Uint8Array) => {
+  let found = false;
+  unzipSync(bytes, { filter: file => { found ||= file.name === 'META-INF/container.xml'; return false; } });
+  return found;
+};
+
+// Sniffs the first bytes, falling back to the MIME type for text formats such as SVG
+export const detectFileKind = async (file: Blob): Promise<ImportKind | null> => {
+  const kind = sniffFileKind(new Uint8Array(await file.slice(0, SNIFF_BYTES).arrayBuffer()));
+  if (kind === 'project') {
+    try {
+      return isMxl(new Uint8Array(await file.arrayBuffer())) ? 'score' : 'project';
+    } catch (e) {
+      return null;
+    }
+  }
+  if (kind) return kind;
+  if (file.type.startsWith('image/')) return 'image';
+  if (file.type.startsWith('audio/')) return 'audio';
+  return null;
+};
+
+// --- MIDI ---
+
+// RIFF MIDI (.rmi) wraps a Standard MIDI File in its 'data' chunk
+const unwrapRmid = (bytes: Uint8Array): Uint8Array | null => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let pos = 12;
+  while (pos + 8 <= bytes.length) {
+    const size = view.getUint32(pos + 4, true);
+    if (ascii(bytes, pos, 4) === 'data') return bytes.subarray(pos + 8, pos + 8 + size);
+    pos += 8 + size + (size & 1);
+  }
+  return null;
+};
+
+export const importMidi = async (file: Blob): Promise<ImportResult<MidiDocument>> => {
+  let bytes = new Uint8Array(await file.arrayBuffer());
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'RMID') {
+    const data = unwrapRmid(bytes);
+    if (!data) return failure(['RIFF MIDI file has no MIDI data']);
+    bytes = data.slice();
+  }
+  if (bytes.length < 14 || ascii(bytes, 0, 4) !== 'MThd') {
+    const kind = sniffFileKind(bytes);
+    return failure([kind ? `This looks like ${KIND_LABELS[kind]}, not MIDI` : 'Not a Standard MIDI File']);
+  }
+
+  const header = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const format = header.getUint16(8);
+  const division = header.getUint16(12);
+  if (format > 2) return failure([`Unsupported MIDI format ${format}`]);
+  if (division & 0x8000) return failure(['SMPTE time division is not supported, only ticks per quarter note']);
+
+  let midi: MidiDocument;
+  try {
+    midi = parseMidi(bytes.buffer as ArrayBuffer);
+  } catch (e) {
+    return failure([`Could not read the MIDI data: ${errorMessage(e)}`]);
+  }
+  if (midi.notes.length === 0) return failure(['The file has no notes']);
+
+  const warnings: string[] = [];
+  if (format === 2) warnings.push('Format 2 file: its separate patterns are played at the same time');
+
+  // Format 1 files keep the tempo map on a first track without notes, which is expected
+  const emptyTracks = midi.tracks.filter(t => t.noteCount === 0 && !(format === 1 && t.index === 0));
+  if (emptyTracks.length > 0) {
+    warnings.push(`${plural(emptyTracks.length, 'track')} without notes: ${emptyTracks.map(t => t.name).join(', ')}`);
+  }
+
+  const zeroLength = midi.notes.filter(n => n.duration <= 0);
+  zeroLength.forEach(n => { n.duration = MIN_NOTE_SECONDS; });
+  if (zeroLength.length > 0) {
+    warnings.push(`${plural(zeroLength.length, 'zero-length note')} lengthened to ${MIN_NOTE_SECONDS * 1000} ms`);
+  }
+
+  if (midi.notes.every(n => n.channel === DRUM_CHANNEL)) {
+    warnings.push('Only drum-channel notes (channel 10): their pitches stand for drum sounds, not melody');
+  }
+  return { value: midi, errors: [], warnings };
+};
+
+// --- SCORES ---
+
+// MusicXML (.musicxml, .xml), compressed MusicXML (.mxl) or ABC notation, told apart by content
+export const importScore = async (file: Blob): Promise<ImportResult<MidiDocument>> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let parsed: ScoreImport;
+  try {
+    if (ascii(bytes, 0, 4) === 'PK\x03\x04') parsed = parseMusicXml(readMxl(bytes));
+    else {
+      const text = decodeText(bytes);
+      parsed = /<score-(partwise|timewise)[\s>]/.test(text) ? parseMusicXml(text) : parseAbc(text);
+    }
+  } catch (e) {
+    return failure([`Could not read the score: ${errorMessage(e)}`]);
+  }
+
+  const midi = createScoreDocument(parsed.score);
+  if (midi.notes.length === 0) return failure(['The score has no notes'], parsed.warnings);
+  return { value: midi, errors: [], warnings: parsed.warnings };
+};
+
+// A MIDI file or a score, whichever the contents say
+export const importNotes = async (file: Blob): Promise<ImportResult<MidiDocument>> =>
+  await detectFileKind(file) === 'score' ? importScore(file) : importMidi(file);
+
+// --- AUDIO ---
+
+export const importAudio = async (context: BaseAudioContext, file: Blob): Promise<ImportResult<AudioBuffer>> => {
+  let decoded: AudioBuffer;
+  try {
+    decoded = await context.decodeAudioData(await file.arrayBuffer());
+  } catch (e) {
+    const kind = sniffFileKind(new Uint8Array(await file.slice(0, 16).arrayBuffer()));
+    return failure([kind && kind !== 'audio' ? `This looks like ${KIND_LABELS[kind]}, not audio` : `Could not decode the audio: ${errorMessage(e)}`]);
+  }
+  if (decoded.length === 0) return failure(['The audio is empty']);
+
+  const warnings: string[] = [];
+  let peak = 0;
+  for (let c = 0; c < decoded.numberOfChannels && peak < SILENCE_PEAK; c++) {
+    const data = decoded.getChannelData(c);
+    for (let i = 0; i < data.length; i++) peak = Math.max(peak, Math.abs(data[i]));
+  }
+  if (peak < SILENCE_PEAK) warnings.push('The audio is silent');
+  return { value: decoded, errors: [], warnings };
+};
+
+// --- IMAGE ---
+
+// Resolves to an object URL for the cover
+export const importImage = async (file: Blob): Promise<ImportResult<string>> => {
+  const url = URL.createObjectURL(file);
+  let image: HTMLImageElement;
+  try {
+    image = await loadImage(url);
+  } catch (e) {
+    URL.revokeObjectURL(url);
+    return failure(['Could not load the image: the format may not be supported by this browser']);
+  }
+
+  const warnings: string[] = [];
+  const { naturalWidth: w, naturalHeight: h } = image;
+  if (Math.min(w, h) < MIN_COVER_SIZE) warnings.push(`Only ${w}×${h}: the cover will look soft in a 1080p export`);
+  if (w !== h) warnings.push(`Not square (${w}×${h}): the cover panel crops it`);
+  return { value: url, errors: [], warnings };
+};
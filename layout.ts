@@ -0,0 +1,158 @@
+import { AppSettings, AspectRatio, ExportResolution, LayoutPanel, LayoutPanelKind, NamedLayout } from './types';
+
+export const ASPECT_RATIOS: AspectRatio[] = ['16:9', '9:16', '1:1', '4:5', '21:9'];
+
+export const PANEL_LABELS: Record<LayoutPanelKind, string> = {
+  title: 'Title & Credits',
+  captions: 'Captions',
+  lyrics: 'Lyrics',
+  piano: 'Piano Roll',
+  scope: 'Analysis',
+  spectrogram: 'Spectrogram',
+  cover: 'Cover'
+};
+
+// 1080p frame of each ratio; 4K doubles both sides
+const FRAME_SIZES: Record<AspectRatio, { width: number; height: number }> = {
+  '16:9': { width: 1920, height: 1080 },
+  '9:16': { width: 1080, height: 1920 },
+  '1:1': { width: 1080, height: 1080 },
+  '4:5': { width: 1080, height: 1350 },
+  '21:9': { width: 2520, height: 1080 }
+};
+
+export const getFrameSize = (aspectRatio: AspectRatio, resolution: ExportResolution = '1080p') => {
+  const { width, height } = FRAME_SIZES[aspectRatio];
+  const scale = resolution === '4k' ? 2 : 1;
+  return { width: width * scale, height: height * scale };
+};
+
+// Covers are square in every preset; blended titles come last so they blend with the panels, and
+// lyrics and captions sit over the foot of the piano roll
+export const LAYOUT_PRESETS: Record<AspectRatio, LayoutPanel[]> = {
+  '16:9': [
+    { kind: 'piano', x: 0.021, y: 0.104, w: 0.635, h: 0.859 },
+    { kind: 'scope', x: 0.668, y: 0.104, w: 0.311, h: 0.419 },
+    { kind: 'cover', x: 0.706, y: 0.544, w: 0.2357, h: 0.419 },
+    { kind: 'lyrics', x: 0.041, y: 0.8, w: 0.595, h: 0.07 },
+    { kind: 'captions', x: 0.041, y: 0.88, w: 0.595, h: 0.06 },
+    { kind: 'title', x: 0.031, y: 0.03, w: 0.938, h: 0.1, blend: true }
+  ],
+  '9:16': [
+    { kind: 'title', x: 0.04, y: 0.03, w: 0.92, h: 0.04 },
+    { kind: 'cover', x: 0, y: 0.0833, w: 0.4074, h: 0.2292 },
+    { kind: 'scope', x: 0.4074, y: 0.0833, w: 0.5926, h: 0.2292 },
+    { kind: 'piano', x: 0, y: 0.3125, w: 1, h: 0.6875 },
+    { kind: 'lyrics', x: 0.05, y: 0.865, w: 0.9, h: 0.045 },
+    { kind: 'captions', x: 0.05, y: 0.92, w: 0.9, h: 0.035 }
+  ],
+  '1:1': [
+    { kind: 'title', x: 0.05, y: 0.03, w: 0.9, h: 0.08 },
+    { kind: 'cover', x: 0.04, y: 0.13, w: 0.28, h: 0.28 },
+    { kind: 'scope', x: 0.34, y: 0.13, w: 0.62, h: 0.28 },
+    { kind: 'piano', x: 0.04, y: 0.44, w: 0.92, h: 0.52 },
+    { kind: 'lyrics', x: 0.06, y: 0.8, w: 0.88, h: 0.07 },
+    { kind: 'captions', x: 0.06, y: 0.88, w: 0.88, h: 0.06 }
+  ],
+  '4:5': [
+    { kind: 'title', x: 0.05, y: 0.03, w: 0.9, h: 0.07 },
+    { kind: 'cover', x: 0.04, y: 0.12, w: 0.3, h: 0.24 },
+    { kind: 'scope', x: 0.36, y: 0.12, w: 0.6, h: 0.24 },
+    { kind: 'piano', x: 0.04, y: 0.39, w: 0.92, h: 0.58 },
+    { kind: 'lyrics', x: 0.06, y: 0.83, w: 0.88, h: 0.06 },
+    { kind: 'captions', x: 0.06, y: 0.9, w: 0.88, h: 0.05 }
+  ],
+  '21:9': [
+    { kind: 'piano', x: 0.02, y: 0.16, w: 0.6, h: 0.8 },
+    { kind: 'cover', x: 0.64, y: 0.16, w: 0.1629, h: 0.38 },
+    { kind: 'scope', x: 0.823, y: 0.16, w: 0.157, h: 0.38 },
+    { kind: 'spectrogram', x: 0.64, y: 0.58, w: 0.34, h: 0.38 },
+    { kind: 'lyrics', x: 0.04, y: 0.8, w: 0.56, h: 0.07 },
+    { kind: 'captions', x: 0.04, y: 0.88, w: 0.56, h: 0.06 },
+    { kind: 'title', x: 0.03, y: 0.03, w: 0.94, h: 0.1, blend: true }
+  ]
+};
+
+// Where a panel goes when it is added to a layout that lacks it
+export const getDefaultPanel = (aspectRatio: AspectRatio, kind: LayoutPanelKind): LayoutPanel =>
+  LAYOUT_PRESETS[aspectRatio].find(p => p.kind === kind) ?? { kind, x: 0.35, y: 0.35, w: 0.3, h: 0.3 };
+
+export const getLayoutPanels = (settings: Pick<AppSettings, 'aspectRatio' | 'layout'>) =>
+  settings.layout ?? LAYOUT_PRESETS[settings.aspectRatio];
+
+// Canvas size of a panel, in pixels of the 1080p frame. The live preview and the export draw at this
+// size and stretch it into the panel, so both show the same thing at any resolution.
+export const getPanelCanvasSize = (panel: LayoutPanel, aspectRatio: AspectRatio) => {
+  const frame = FRAME_SIZES[aspectRatio];
+  return { w: Math.max(1, Math.round(panel.w * frame.width)), h: Math.max(1, Math.round(panel.h * frame.height)) };
+};
+
+export const MIN_PANEL_SIZE = 0.05;
+
+// Keeps the panel inside the frame and at least MIN_PANEL_SIZE on each side
+export const clampPanel = (panel: LayoutPanel): LayoutPanel => {
+  const w = Math.min(1, Math.max(MIN_PANEL_SIZE, panel.w));
+  const h = Math.min(1, Math.max(MIN_PANEL_SIZE, panel.h));
+  return {
+    ...panel,
+    w,
+    h,
+    x: Math.min(1 - w, Math.max(0, panel.x)),
+    y: Math.min(1 - h, Math.max(0, panel.y))
+  };
+};
+
+// --- VALIDATION AND STORAGE ---
+
+const isPlainObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const PANEL_KINDS = Object.keys(PANEL_LABELS) as LayoutPanelKind[];
+
+export const isAspectRatio = (v: unknown): v is AspectRatio => ASPECT_RATIOS.includes(v as AspectRatio);
+
+// Drops panels of unknown kinds or with non-numeric rectangles; null when nothing usable is left
+export const sanitizeLayout = (raw: unknown): LayoutPanel[] | null => {
+  if (!Array.isArray(raw)) return null;
+  const panels = raw
+    .filter((p): p is Record<string, unknown> =>
+      isPlainObject(p) && PANEL_KINDS.includes(p.kind as LayoutPanelKind) &&
+      ['x', 'y', 'w', 'h'].every(k => typeof p[k] === 'number' && Number.isFinite(p[k])))
+    .map(p => clampPanel({
+      kind: p.kind as LayoutPanelKind,
+      x: p.x as number,
+      y: p.y as number,
+      w: p.w as number,
+      h: p.h as number,
+      ...(p.blend === true ? { blend: true } : {})
+    }));
+  return panels.length > 0 ? panels : null;
+};
+
+const STORAGE_KEY = 'tintinnabuli-visualizer.layouts';
+
+export const loadSavedLayouts = (): NamedLayout[] => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(raw)) return [];
+    return raw.flatMap(l => {
+      const panels = isPlainObject(l) && typeof l.name === 'string' && isAspectRatio(l.aspectRatio) ? sanitizeLayout(l.panels) : null;
+      return panels ? [{ name: l.name as string, aspectRatio: l.aspectRatio as AspectRatio, panels }] : [];
+    });
+  } catch (e) {
+    console.warn('Saved layouts could not be read', e);
+    return [];
+  }
+};
+
+export const storeSavedLayouts = (layouts: NamedLayout[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(layouts));
+  } catch (e) {
+    console.warn('Saved layouts could not be stored', e);
+  }
+};
+
+export const isSameLayout = (a: LayoutPanel[], b: LayoutPanel[]) =>
+  a.length === b.length && a.every((p, i) =>
+    p.kind === b[i].kind && p.x === b[i].x && p.y === b[i].y && p.w === b[i].w && p.h === b[i].h && !!p.blend === !!b[i].blend);
@@ -0,0 +1,190 @@
+import { AppSettings, LyricLine, LyricSyllable, MidiDocument, SectionMarker } from './types';
+import { TextBlock } from './text';
+
+// A pause this long between syllables starts a new line
+const LINE_GAP = 2.5;
+// Lines past this many characters break at the next word
+const MAX_LINE_CHARS = 42;
+// The last line of a phrase stays up this long after its last syllable
+const LINE_HOLD = 2;
+// A line appears this long before its first syllable, fading in
+const LINE_LEAD = 0.5;
+
+// --- FROM MIDI ---
+
+// Lyric events, or for .kar files (whose '@' header lines are text events) the text events
+const getLyricEvents = (midi: MidiDocument) => {
+  const lyrics = midi.textEvents.filter(e => e.kind === 'lyric');
+  if (lyrics.length > 0) return lyrics;
+  const isKar = midi.textEvents.some(e => e.kind === 'text' && e.text.startsWith('@'));
+  return isKar ? midi.textEvents.filter(e => e.kind === 'text' && !e.text.startsWith('@')) : [];
+};
+
+// Groups syllables into display lines. Karaoke files start a line with '/' or '\' (or CR/LF);
+// otherwise long pauses and long lines break them. A trailing '-' joins a syllable to the next.
+export const buildLyricLines = (events: LyricSyllable[]): LyricLine[] => {
+  const lines: LyricLine[] = [];
+  let current: LyricSyllable[] = [];
+  let chars = 0;
+
+  const flush = () => {
+    if (current.some(s => s.text.trim())) {
+      lines.push({ start: current[0].time, end: current[current.length - 1].time + LINE_HOLD, syllables: current });
+    }
+    current = [];
+    chars = 0;
+  };
+
+  for (const event of events) {
+    const breakBefore = /^[/\\\r\n]/.test(event.text);
+    const breakAfter = /[\r\n]$/.test(event.text);
+    const text = event.text.replace(/^[/\\\r\n]+/, '').replace(/[\r\n]+$/, '').replace(/-$/, '');
+    const previous = current[current.length - 1];
+    const wordEnded = !previous || previous.text.endsWith(' ');
+    if (breakBefore || (previous && event.time - previous.time > LINE_GAP) || (chars > MAX_LINE_CHARS && wordEnded)) flush();
+
+    current.push({ time: event.time, text });
+    chars += text.length;
+    if (breakAfter) flush();
+  }
+  flush();
+
+  // A line gives way to the next one as soon as it starts
+  for (let i = 0; i + 1 < lines.length; i++) lines[i].end = Math.min(lines[i].end, lines[i + 1].start);
+  return lines;
+};
+
+const lyricCache = new WeakMap<MidiDocument, LyricLine[]>();
+
+// Lines in MIDI time
+export const getMidiLyricLines = (midi: MidiDocument) => {
+  let lines = lyricCache.get(midi);
+  if (!lines) {
+    lines = buildLyricLines(getLyricEvents(midi).map(e => ({ time: e.time, text: e.text })));
+    lyricCache.set(midi, lines);
+  }
+  return lines;
+};
+
+const markerCache = new WeakMap<MidiDocument, SectionMarker[]>();
+
+export const getSectionMarkers = (midi: MidiDocument) => {
+  let markers = markerCache.get(midi);
+  if (!markers) {
+    markers = midi.textEvents
+      .filter(e => (e.kind === 'marker' || e.kind === 'cue') && e.text.trim())
+      .map(e => ({ time: e.time, text: e.text.trim() }));
+    markerCache.set(midi, markers);
+  }
+  return markers;
+};
+
+// --- LRC AND SRT ---
+
+// mm:ss, mm:ss.xx or mm:ss:xx
+const parseLrcTime = (stamp: string) => {
+  const [m, s, fraction] = stamp.split(/[:.]/);
+  return Number(m) * 60 + Number(s) + (fraction ? Number(fraction) / 10 ** fraction.length : 0);
+};
+
+// Line timestamps ([mm:ss.xx], several per line allowed) and enhanced-LRC word timestamps (<mm:ss.xx>)
+export const parseLrc = (source: string): LyricLine[] => {
+  const offsetTag = source.match(/^\[offset:\s*([+-]?\d+)\s*\]/im);
+  // A positive offset shows the lyrics earlier
+  const offset = offsetTag ? -Number(offsetTag[1]) / 1000 : 0;
+  // `shift` moves word timestamps along with a line repeated under several line timestamps
+  const entries: { time: number; shift: number; text: string }[] = [];
+
+  for (const raw of source.split(/\r?\n/)) {
+    const match = raw.match(/^((?:\s*\[\d+:\d+(?:[.:]\d+)?\])+)(.*)$/);
+    if (!match) continue;
+    const stamps = (match[1].match(/\d+:\d+(?:[.:]\d+)?/g) ?? []).map(parseLrcTime);
+    for (const stamp of stamps) entries.push({ time: stamp + offset, shift: stamp - stamps[0], text: match[2] });
+  }
+  entries.sort((a, b) => a.time - b.time);
+
+  const lines: LyricLine[] = [];
+  entries.forEach((entry, i) => {
+    // Empty lines only mark where the previous one stops
+    if (!entry.text.replace(/<[^>]*>/g, '').trim()) return;
+    const syllables: LyricSyllable[] = [];
+    let time = entry.time;
+    for (const part of entry.text.split(/(<\d+:\d+(?:[.:]\d+)?>)/)) {
+      const stamp = part.match(/^<(.+)>$/);
+      if (stamp) time = parseLrcTime(stamp[1]) + offset + entry.shift;
+      else if (part) syllables.push({ time, text: part });
+    }
+    const next = entries[i + 1];
+    lines.push({ start: entry.time, end: next ? next.time : entry.time + LINE_HOLD * 2, syllables });
+  });
+  return lines;
+};
+
+// hh:mm:ss,mmm (WebVTT-style dots accepted)
+const parseSrtTime = (stamp: string) => {
+  const [h, m, s] = stamp.trim().replace(',', '.').split(':');
+  return Number(h) * 3600 + Number(m) * 60 + Number(s);
+};
+
+// Each cue becomes one line, lit as a whole
+export const parseSrt = (source: string): LyricLine[] => {
+  const lines: LyricLine[] = [];
+  for (const block of source.replace(/\r/g, '').split(/\n\s*\n/)) {
+    const rows = block.split('\n');
+    const timing = rows.findIndex(r => r.includes('-->'));
+    if (timing < 0) continue;
+    const [from, to] = rows[timing].split('-->').map(t => t.trim().split(/\s+/)[0]);
+    const text = rows.slice(timing + 1).join(' ').replace(/<[^>]*>/g, '').trim();
+    const start = parseSrtTime(from);
+    const end = parseSrtTime(to);
+    if (!text || !Number.isFinite(start) || !Number.isFinite(end)) continue;
+    lines.push({ start, end, syllables: [{ time: start, text }] });
+  }
+  return lines.sort((a, b) => a.start - b.start);
+};
+
+export const parseLyricsFile = (name: string, source: string): LyricLine[] => {
+  const lower = name.toLowerCase();
+  const isSrt = lower.endsWith('.srt') || (!lower.endsWith('.lrc') && source.includes('-->'));
+  const lines = isSrt ? parseSrt(source) : parseLrc(source);
+  if (lines.length === 0) throw new Error(`No timed lines found in ${name}`);
+  return lines;
+};
+
+const isPlainObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+export const sanitizeLyrics = (raw: unknown): LyricLine[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap(line => {
+    if (!isPlainObject(line) || typeof line.start !== 'number' || typeof line.end !== 'number' || !Array.isArray(line.syllables)) return [];
+    const syllables = line.syllables.filter((s): s is LyricSyllable =>
+      isPlainObject(s) && typeof s.time === 'number' && Number.isFinite(s.time) && typeof s.text === 'string');
+    return syllables.length > 0 ? [{ start: line.start, end: line.end, syllables }] : [];
+  });
+};
+
+// --- DISPLAY ---
+
+// The line being sung at audio time `time`, with the syllables reached so far lit.
+// Imported lyrics are in audio time; MIDI lyrics follow the sync offset like the notes.
+export const getLyricBlock = (settings: AppSettings, midi: MidiDocument, time: number): TextBlock | null => {
+  if (!settings.showLyrics) return null;
+  const imported = settings.lyrics.length > 0;
+  const lines = imported ? settings.lyrics : getMidiLyricLines(midi);
+  const t = imported ? time : time + settings.offsetMs / 1000;
+
+  const line = lines.find(l => t >= l.start - LINE_LEAD && t < l.end);
+  if (!line) return null;
+
+  const full = line.syllables.map(s => s.text).join('');
+  const text = full.trim();
+  const leading = full.length - full.trimStart().length;
+  const sung = line.syllables.filter(s => s.time <= t).reduce((n, s) => n + s.text.length, 0);
+  const opacity = Math.min(1, (t - line.start + LINE_LEAD) / LINE_LEAD, (line.end - t) / 0.3);
+  return {
+    font: settings.textFont,
+    lines: [{ text, scale: 1, italic: false, tracking: 0.05, lit: Math.min(text.length, Math.max(0, sung - leading)) }],
+    opacity
+  };
+};
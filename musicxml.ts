@@ -0,0 +1,201 @@
+import { unzipSync, strFromU8 } from 'fflate';
+import { SCORE_PPQ, ScoreImport, ScoreMeasure, ScorePart, createScoreMeasure, getKeySignature } from './notation';
+
+const STEPS: Record<string, number> = { C: 0, D: 2, E: 4, F: 5, G: 7, A: 9, B: 11 };
+// <sound dynamics> is a percentage of a forte velocity of 90
+const FORTE_VELOCITY = 90;
+const DEFAULT_VELOCITY = 80;
+// Metronome beat units, in quarter notes
+const BEAT_UNITS: Record<string, number> = { breve: 8, whole: 4, half: 2, quarter: 1, eighth: 0.5, '16th': 0.25, '32nd': 0.125 };
+
+// Direct children only: descendant selectors would reach into nested elements of the same name
+const children = (el: Element, name: string) => Array.from(el.children).filter(c => c.tagName === name);
+const child = (el: Element, name: string) => children(el, name)[0] ?? null;
+const childText = (el: Element, name: string) => child(el, name)?.textContent?.trim() ?? '';
+const childNumber = (el: Element, name: string, fallback: number) => {
+  const value = parseFloat(childText(el, name));
+  return Number.isFinite(value) ? value : fallback;
+};
+
+const toVelocity = (dynamics: number) => Math.max(1, Math.min(127, Math.round(dynamics * FORTE_VELOCITY / 100)));
+
+// Counts of what the score holds but the piano roll leaves out
+interface Skipped {
+  grace: number;
+  unpitched: number;
+}
+
+const readPart = (measureElements: Element[], skipped: Skipped): ScoreMeasure[] => {
+  let divisions = 1;
+  let velocity = DEFAULT_VELOCITY;
+  // Semitones from written to sounding pitch, for transposing instruments
+  let transpose = 0;
+  // An ending can span several measures, from its start to its stop (or discontinue) barline
+  let endings: number[] | null = null;
+
+  return measureElements.map(el => {
+    const measure = createScoreMeasure();
+    measure.endings = endings;
+    let closeEndings = false;
+    let pos = 0;
+    let end = 0;
+    let chordStart = 0;
+    const ticks = (duration: number) => duration * SCORE_PPQ / divisions;
+
+    const readSound = (sound: Element) => {
+      const tempo = parseFloat(sound.getAttribute('tempo') ?? '');
+      if (tempo > 0) measure.tempos.push({ offset: pos, bpm: tempo });
+      const dynamics = parseFloat(sound.getAttribute('dynamics') ?? '');
+      if (dynamics >= 0) velocity = toVelocity(dynamics);
+      return tempo > 0;
+    };
+
+    for (const c of Array.from(el.children)) {
+      switch (c.tagName) {
+        case 'attributes': {
+          divisions = childNumber(c, 'divisions', divisions);
+          const transposeEl = child(c, 'transpose');
+          if (transposeEl) transpose = Math.round(childNumber(transposeEl, 'chromatic', 0) + 12 * childNumber(transposeEl, 'octave-change', 0));
+          const key = child(c, 'key');
+          if (key && child(key, 'fifths')) measure.key = getKeySignature(childNumber(key, 'fifths', 0), childText(key, 'mode') || 'major');
+          const time = child(c, 'time');
+          if (time && child(time, 'beats')) {
+            // Additive meters such as 3+2/8
+            const numerator = childText(time, 'beats').split('+').reduce((sum, b) => sum + (parseInt(b) || 0), 0);
+            const denominator = childNumber(time, 'beat-type', 4);
+            if (numerator > 0) measure.timeSignature = { numerator, denominator };
+          }
+          break;
+        }
+        case 'note': {
+          if (child(c, 'grace')) {
+            skipped.grace++;
+            break;
+          }
+          const duration = ticks(childNumber(c, 'duration', 0));
+          const isChord = child(c, 'chord') !== null;
+          if (!isChord) {
+            chordStart = pos;
+            pos += duration;
+            end = Math.max(end, pos);
+          }
+          // Cue notes take up time but aren't played
+          if (child(c, 'rest') || child(c, 'cue')) break;
+          const pitch = child(c, 'pitch');
+          if (!pitch) {
+            if (child(c, 'unpitched')) skipped.unpitched++;
+            break;
+          }
+          const note = (childNumber(pitch, 'octave', 4) + 1) * 12 + STEPS[childText(pitch, 'step')] + Math.round(childNumber(pitch, 'alter', 0)) + transpose;
+          if (!Number.isFinite(note) || note < 0 || note > 127) break;
+
+          const noteDynamics = parseFloat(c.getAttribute('dynamics') ?? '');
+          const notations = child(c, 'notations');
+          const ties = [...children(c, 'tie'), ...(notations ? children(notations, 'tied') : [])];
+          measure.notes.push({
+            offset: chordStart,
+            duration,
+            note,
+            velocity: noteDynamics >= 0 ? toVelocity(noteDynamics) : velocity,
+            voice: childText(c, 'voice') || '1',
+            staff: childNumber(c, 'staff', 1),
+            tieStart: ties.some(t => t.getAttribute('type') === 'start')
+          });
+          break;
+        }
+        case 'backup':
+          pos -= ticks(childNumber(c, 'duration', 0));
+          break;
+        case 'forward':
+          pos += ticks(childNumber(c, 'duration', 0));
+          end = Math.max(end, pos);
+          break;
+        case 'direction': {
+          const sound = child(c, 'sound');
+          if (sound && readSound(sound)) break;
+          // A metronome mark without a <sound tempo> still sets the tempo
+          const metronome = children(c, 'direction-type').map(d => child(d, 'metronome')).find(m => m !== null);
+          const perMinute = parseFloat(metronome ? childText(metronome, 'per-minute').replace(/^\D+/, '') : '');
+          if (metronome && perMinute > 0) {
+            const unit = BEAT_UNITS[childText(metronome, 'beat-unit')] ?? 1;
+            const dotted = child(metronome, 'beat-unit-dot') ? 1.5 : 1;
+            measure.tempos.push({ offset: pos, bpm: perMinute * unit * dotted });
+          }
+          break;
+        }
+        case 'sound':
+          readSound(c);
+          break;
+        case 'barline': {
+          const repeat = child(c, 'repeat');
+          if (repeat?.getAttribute('direction') === 'forward') measure.repeatStart = true;
+          if (repeat?.getAttribute('direction') === 'backward') measure.repeatTimes = parseInt(repeat.getAttribute('times') ?? '') || 2;
+          const ending = child(c, 'ending');
+          if (ending) {
+            const numbers = (ending.getAttribute('number') ?? '').match(/\d+/g)?.map(Number) ?? [];
+            if (ending.getAttribute('type') === 'start') endings = numbers.length > 0 ? numbers : null;
+            else closeEndings = true;
+            measure.endings = endings ?? (numbers.length > 0 ? numbers : null);
+          }
+          break;
+        }
+      }
+    }
+
+    measure.length = Math.max(end, pos);
+    if (closeEndings) endings = null;
+    return measure;
+  });
+};
+
+// Reads score-partwise and score-timewise documents (the latter nest parts inside measures)
+export const parseMusicXml = (source: string): ScoreImport => {
+  const doc = new DOMParser().parseFromString(source, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('The MusicXML file is not well-formed XML');
+  const root = doc.documentElement;
+  if (root.tagName !== 'score-partwise' && root.tagName !== 'score-timewise') throw new Error('Not a MusicXML score');
+
+  const partMeasures = new Map<string, Element[]>();
+  if (root.tagName === 'score-partwise') {
+    for (const part of children(root, 'part')) partMeasures.set(part.getAttribute('id') ?? '', children(part, 'measure'));
+  } else {
+    for (const measure of children(root, 'measure')) {
+      for (const part of children(measure, 'part')) {
+        const id = part.getAttribute('id') ?? '';
+        partMeasures.set(id, [...(partMeasures.get(id) ?? []), part]);
+      }
+    }
+  }
+
+  const partList = child(root, 'part-list');
+  const skipped: Skipped = { grace: 0, unpitched: 0 };
+  const parts: ScorePart[] = [...partMeasures].map(([id, measures], i) => {
+    const info = partList ? children(partList, 'score-part').find(p => p.getAttribute('id') === id) : undefined;
+    const instrument = info && child(info, 'score-instrument');
+    return {
+      name: (info && childText(info, 'part-name')) || `Part ${i + 1}`,
+      instrument: instrument ? childText(instrument, 'instrument-name') : '',
+      measures: readPart(measures, skipped)
+    };
+  });
+
+  const work = child(root, 'work');
+  const warnings: string[] = [];
+  if (skipped.grace > 0) warnings.push(`${skipped.grace} grace note${skipped.grace === 1 ? '' : 's'} left out`);
+  if (skipped.unpitched > 0) warnings.push(`${skipped.unpitched} unpitched (percussion) note${skipped.unpitched === 1 ? '' : 's'} left out`);
+  return {
+    score: { name: (work && childText(work, 'work-title')) || childText(root, 'movement-title'), parts },
+    warnings
+  };
+};
+
+// Compressed MusicXML (.mxl): a zip whose META-INF/container.xml points at the score
+export const readMxl = (bytes: Uint8Array): string => {
+  const files = unzipSync(bytes);
+  const container = files['META-INF/container.xml'];
+  const path = container && strFromU8(container).match(/full-path="([^"]+)"/)?.[1];
+  const entry = (path && files[path])
+    || Object.entries(files).find(([name]) => !name.startsWith('META-INF/') && /\.(musicxml|xml)$/i.test(name))?.[1];
+  if (!entry) throw new Error('No score found in the compressed MusicXML file');
+  return strFromU8(entry);
+};
@@ -0,0 +1,254 @@
+import { KeySignatureChange, MidiDocument, MidiTrackInfo, NoteEvent, TempoChange, TimeSignatureChange } from './types';
+import { buildBeatGrid } from './utils';
+
+// Score importers (MusicXML, ABC) read each part into measures timed in ticks; the measures are then
+// unrolled through their repeats and timed by the tempo map into the same document a MIDI file gives.
+
+export const SCORE_PPQ = 480;
+const DEFAULT_BPM = 120;
+// Played measures stop at this many times the written ones, against repeat marks that never end
+const MAX_REPEAT_FACTOR = 16;
+
+export interface ScoreNote {
+  offset: number;   // ticks from the start of the measure
+  duration: number; // ticks
+  note: number;
+  velocity: number;
+  voice: string;
+  staff: number;    // 1-based
+  tieStart: boolean; // held on into the next note of the same pitch, voice and staff
+}
+
+export interface ScoreMeasure {
+  length: number; // ticks
+  notes: ScoreNote[];
+  tempos: { offset: number; bpm: number }[]; // bpm in quarter notes
+  timeSignature?: { numerator: number; denominator: number };
+  key?: { key: string; scale: string };
+  repeatStart: boolean;
+  repeatTimes: number;      // when a backward repeat closes the measure: how often the section is played
+  endings: number[] | null; // volta numbers: the measure is only played on these passes
+}
+
+export interface ScorePart {
+  name: string;
+  instrument: string;
+  measures: ScoreMeasure[];
+}
+
+export interface Score {
+  name: string;
+  parts: ScorePart[];
+}
+
+// What a score importer hands back: the score, and anything it had to leave out
+export interface ScoreImport {
+  score: Score;
+  warnings: string[];
+}
+
+export const createScoreMeasure = (): ScoreMeasure => ({
+  length: 0, notes: [], tempos: [], repeatStart: false, repeatTimes: 0, endings: null
+});
+
+// --- KEYS ---
+
+// Distance of each mode's tonic from the major tonic of its key signature, in fifths
+const MODE_FIFTHS: Record<string, number> = { maj: 0, ion: 0, mix: 1, dor: 2, min: 3, aeo: 3, m: 3, phr: 4, loc: 5, lyd: -1 };
+
+// Accepts full names (MusicXML 'dorian') and ABC abbreviations ('dor', 'm'); unknown modes count as major
+export const getModeFifths = (mode: string) => MODE_FIFTHS[mode.toLowerCase().slice(0, 3)] ?? 0;
+
+// Note name at `fifths` on the circle of fifths from C: 1 = 'G', -2 = 'Bb', 8 = 'G#'
+export const getFifthsName = (fifths: number) => {
+  const index = fifths + 1;
+  const accidentals = Math.floor(index / 7);
+  return 'FCGDAEB'[((index % 7) + 7) % 7] + (accidentals >= 0 ? '#'.repeat(accidentals) : 'b'.repeat(-accidentals));
+};
+
+// Tonic and major/minor scale of a key signature of `fifths` in `mode`; the minor-third modes count as minor
+export const getKeySignature = (fifths: number, mode: string) => {
+  const shift = getModeFifths(mode);
+  return { key: getFifthsName(fifths + shift), scale: shift >= 2 ? 'minor' : 'major' };
+};
+
+// --- REPEATS ---
+
+// Order in which measures are played, following repeat signs and numbered endings (voltas)
+export const getPlayOrder = (measures: ScoreMeasure[]): number[] => {
+  const order: number[] = [];
+  const taken = new Map<number, number>();
+  let start = 0;
+  let pass = 1;
+  let jumped = false;
+
+  for (let i = 0; i < measures.length && order.length < measures.length * MAX_REPEAT_FACTOR;) {
+    const measure = measures[i];
+    // A forward repeat, or the first measure after the endings, starts a new section
+    const afterEndings = i > 0 && !measure.endings && measures[i - 1].endings !== null;
+    if (!jumped && (measure.repeatStart || afterEndings)) {
+      start = i;
+      pass = 1;
+    }
+    jumped = false;
+
+    if (measure.endings && !measure.endings.includes(pass)) {
+      i++;
+      continue;
+    }
+    order.push(i);
+
+    if (measure.repeatTimes > 0) {
+      const count = taken.get(i) ?? 0;
+      if (count + 1 < measure.repeatTimes) {
+        taken.set(i, count + 1);
+        pass++;
+        i = start;
+        jumped = true;
+        continue;
+      }
+      taken.delete(i);
+      if (!measure.endings) {
+        start = i + 1;
+        pass = 1;
+      }
+    }
+    i++;
+  }
+  return order;
+};
+
+// --- DOCUMENT ---
+
+const makeTicksToSeconds = (tempos: { ticks: number; bpm: number }[]) => {
+  // Seconds at each tempo change, so a lookup only walks the changes before it
+  const starts: number[] = [];
+  tempos.forEach((t, i) => {
+    starts.push(i === 0 ? 0 : starts[i - 1] + (t.ticks - tempos[i - 1].ticks) * 60 / (tempos[i - 1].bpm * SCORE_PPQ));
+  });
+  return (ticks: number) => {
+    let i = tempos.length - 1;
+    while (i > 0 && tempos[i].ticks > ticks) i--;
+    return starts[i] + (ticks - tempos[i].ticks) * 60 / (tempos[i].bpm * SCORE_PPQ);
+  };
+};
+
+// Unrolls the repeats of every part together (the first part's repeat marks lead) and merges tied notes
+export const createScoreDocument = (score: Score): MidiDocument => {
+  const { parts } = score;
+  const order = getPlayOrder(parts[0]?.measures ?? []);
+
+  // Parts can disagree on a measure's length (a voice ending early, a faulty file); the longest wins
+  const placed: { index: number; start: number }[] = [];
+  let endTicks = 0;
+  for (const index of order) {
+    placed.push({ index, start: endTicks });
+    endTicks += Math.max(0, ...parts.map(p => p.measures[index]?.length ?? 0));
+  }
+
+  const tempoAt = new Map<number, number>();
+  const timeSignatures: Omit<TimeSignatureChange, 'time'>[] = [];
+  const keySignatures: Omit<KeySignatureChange, 'time'>[] = [];
+  for (const { index, start } of placed) {
+    const measures = parts.map(p => p.measures[index]).filter((m): m is ScoreMeasure => !!m);
+    for (const m of measures) {
+      for (const t of m.tempos) if (!tempoAt.has(start + t.offset)) tempoAt.set(start + t.offset, t.bpm);
+    }
+    const time = measures.find(m => m.timeSignature)?.timeSignature;
+    const last = timeSignatures[timeSignatures.length - 1];
+    if (time && (!last || last.numerator !== time.numerator || last.denominator !== time.denominator)) {
+      timeSignatures.push({ ticks: start, ...time });
+    }
+    const key = measures.find(m => m.key)?.key;
+    const lastKey = keySignatures[keySignatures.length - 1];
+    if (key && (!lastKey || lastKey.key !== key.key || lastKey.scale !== key.scale)) keySignatures.push({ ticks: start, ...key });
+  }
+
+  const tempoTicks: Omit<TempoChange, 'time'>[] = [];
+  [...tempoAt].sort(([a], [b]) => a - b).forEach(([ticks, bpm]) => {
+    if (tempoTicks.length === 0 && ticks > 0) tempoTicks.push({ ticks: 0, bpm: DEFAULT_BPM });
+    if (tempoTicks[tempoTicks.length - 1]?.bpm !== bpm) tempoTicks.push({ ticks, bpm });
+  });
+  if (tempoTicks.length === 0) tempoTicks.push({ ticks: 0, bpm: DEFAULT_BPM });
+  const toSeconds = makeTicksToSeconds(tempoTicks);
+
+  // One track per part and voice, in score order
+  const trackIndex = new Map<string, number>();
+  const trackInfo: { part: ScorePart; voice: string; voices: number }[] = [];
+  parts.forEach((part, p) => {
+    const voices = [...new Set(part.measures.flatMap(m => m.notes.map(n => n.voice)))]
+      .sort((a, b) => (Number(a) - Number(b)) || a.localeCompare(b));
+    voices.forEach(voice => {
+      trackIndex.set(`${p}:${voice}`, trackInfo.length);
+      trackInfo.push({ part, voice, voices: voices.length });
+    });
+  });
+
+  const sounding: { start: number; end: number; note: number; velocity: number; track: number; channel: number; tieStart: boolean }[] = [];
+  for (const { index, start } of placed) {
+    parts.forEach((part, p) => {
+      for (const n of part.measures[index]?.notes ?? []) {
+        sounding.push({
+          start: start + n.offset,
+          end: start + n.offset + n.duration,
+          note: n.note,
+          velocity: n.velocity,
+          track: trackIndex.get(`${p}:${n.voice}`) ?? 0,
+          channel: Math.max(0, n.staff - 1),
+          tieStart: n.tieStart
+        });
+      }
+    });
+  }
+  sounding.sort((a, b) => a.start - b.start);
+
+  // A tie start carries on into the next note of its pitch that begins where it ends
+  const merged: typeof sounding = [];
+  const held = new Map<string, (typeof sounding)[number]>();
+  for (const n of sounding) {
+    const key = `${n.track}:${n.channel}:${n.note}`;
+    const tied = held.get(key);
+    if (tied && Math.abs(tied.end - n.start) < 1) {
+      tied.end = n.end;
+      if (!n.tieStart) held.delete(key);
+      continue;
+    }
+    merged.push(n);
+    if (n.tieStart) held.set(key, n);
+    else held.delete(key);
+  }
+
+  const notes: NoteEvent[] = merged.map(n => ({
+    note: n.note,
+    velocity: n.velocity,
+    startTime: toSeconds(n.start),
+    duration: toSeconds(n.end) - toSeconds(n.start),
+    track: n.track,
+    channel: n.channel
+  }));
+
+  const tracks: MidiTrackInfo[] = trackInfo.map(({ part, voice, voices }, index) => ({
+    index,
+    name: voices > 1 ? `${part.name} · voice ${voice}` : part.name,
+    instrument: part.instrument,
+    channel: notes.find(n => n.track === index)?.channel ?? 0,
+    percussion: false,
+    noteCount: notes.filter(n => n.track === index).length
+  }));
+
+  const timed = <T extends { ticks: number }>(e: T) => ({ ...e, time: toSeconds(e.ticks) });
+  const meters = timeSignatures.map(timed);
+  return {
+    name: score.name,
+    ppq: SCORE_PPQ,
+    duration: toSeconds(endTicks),
+    notes,
+    tracks,
+    tempos: tempoTicks.map(timed),
+    timeSignatures: meters,
+    keySignatures: keySignatures.map(timed),
+    textEvents: [],
+    // Pad the grid by a bar, as for MIDI files
+    beats: buildBeatGrid(SCORE_PPQ, meters, endTicks + SCORE_PPQ * 4, toSeconds)
+  };
+};
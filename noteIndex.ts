@@ -0,0 +1,49 @@
+import { NoteEvent } from './types';
+
+export interface IntervalIndex<T> {
+  // Items whose [start, end] overlaps [from, to], in start order
+  query: (from: number, to: number) => T[];
+}
+
+// Items sorted by start with a running maximum of their ends, so a binary search finds the first
+// item that can still be sounding at `from` even when a few very long items are mixed in
+export const createIntervalIndex = <T>(
+  items: T[],
+  startOf: (item: T) => number,
+  endOf: (item: T) => number
+): IntervalIndex<T> => {
+  const sorted = [...items].sort((a, b) => startOf(a) - startOf(b));
+  const starts = Float64Array.from(sorted, startOf);
+  const ends = Float64Array.from(sorted, endOf);
+  const maxEnd = new Float64Array(sorted.length);
+  for (let i = 0; i < sorted.length; i++) maxEnd[i] = Math.max(ends[i], i > 0 ? maxEnd[i - 1] : -Infinity);
+
+  return {
+    query: (from, to) => {
+      let lo = 0;
+      let hi = sorted.length;
+      while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (maxEnd[mid] < from) lo = mid + 1;
+        else hi = mid;
+      }
+      const found: T[] = [];
+      for (let i = lo; i < sorted.length && starts[i] <= to; i++) {
+        if (ends[i] >= from) found.push(sorted[i]);
+      }
+      return found;
+    }
+  };
+};
+
+const noteIndexCache = new WeakMap<NoteEvent[], IntervalIndex<NoteEvent>>();
+
+// Built once per note list; the lists in MidiDocument never change after parsing
+export const getNoteIndex = (notes: NoteEvent[]) => {
+  let index = noteIndexCache.get(notes);
+  if (!index) {
+    index = createIntervalIndex(notes, n => n.startTime, n => n.startTime + n.duration);
+    noteIndexCache.set(notes, index);
+  }
+  return index;
+};
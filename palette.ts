@@ -0,0 +1,269 @@
+import { DEFAULT_THEME, NamedTheme, ThemePalette } from './types';
+import { hexToRgb, loadImage, rgbToHex } from './utils';
+import { isSameTheme } from './themes';
+
+// Cover palettes are clustered in OKLab, where equal distances look equally different, and every
+// colour is checked against the background with the WCAG contrast ratio
+
+// WCAG 2.1: 4.5:1 for text, 3:1 for graphical objects such as notes and the scope
+export const MIN_TEXT_CONTRAST = 4.5;
+export const MIN_TRACK_CONTRAST = 3;
+
+const TRACK_COUNT = 4;
+const CLUSTER_COUNT = 8;
+const SAMPLE_SIZE = 64;
+// Colours closer than this (OKLab distance) count as the same colour
+const DISTINCT = 0.08;
+
+interface Lab {
+  L: number;
+  a: number;
+  b: number;
+}
+
+interface Cluster {
+  lab: Lab;
+  weight: number; // share of the image's pixels
+}
+
+// --- COLOUR SPACES ---
+
+const toLinear = (c: number) => {
+  const v = c / 255;
+  return v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
+};
+
+const fromLinear = (c: number) => 255 * (c <= 0.0031308 ? 12.92 * c : 1.055 * c ** (1 / 2.4) - 0.055);
+
+const rgbToOklab = (r: number, g: number, b: number): Lab => {
+  const lr = toLinear(r), lg = toLinear(g), lb = toLinear(b);
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+  return {
+    L: 0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s,
+    a: 1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s,
+    b: 0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s
+  };
+};
+
+// Linear sRGB, possibly out of gamut
+const oklabToLinear = ({ L, a, b }: Lab) => {
+  const l = (L + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+  const m = (L - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+  const s = (L - 0.0894841775 * a - 1.2914855480 * b) ** 3;
+  return [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.7076147010 * s
+  ];
+};
+
+// Out-of-gamut colours lose chroma, keeping their lightness and hue
+const oklabToHex = (lab: Lab) => {
+  let { a, b } = lab;
+  let rgb = oklabToLinear(lab);
+  for (let i = 0; i < 24 && rgb.some(c => c < -1e-4 || c > 1 + 1e-4); i++) {
+    a *= 0.85;
+    b *= 0.85;
+    rgb = oklabToLinear({ L: lab.L, a, b });
+  }
+  return rgbToHex(...(rgb.map(c => fromLinear(Math.min(1, Math.max(0, c)))) as [number, number, number]));
+};
+
+const hexToOklab = (hex: string): Lab => {
+  const rgb = hexToRgb(hex) ?? { r: 0, g: 0, b: 0 };
+  return rgbToOklab(rgb.r, rgb.g, rgb.b);
+};
+
+const distance = (x: Lab, y: Lab) => Math.hypot(x.L - y.L, x.a - y.a, x.b - y.b);
+const chroma = (lab: Lab) => Math.hypot(lab.a, lab.b);
+const withLightness = (lab: Lab, L: number): Lab => ({ ...lab, L: Math.min(1, Math.max(0, L)) });
+
+// --- CONTRAST ---
+
+const relativeLuminance = (hex: string) => {
+  const rgb = hexToRgb(hex) ?? { r: 0, g: 0, b: 0 };
+  return 0.2126 * toLinear(rgb.r) + 0.7152 * toLinear(rgb.g) + 0.0722 * toLinear(rgb.b);
+};
+
+// WCAG contrast ratio, 1 (none) to 21 (black on white)
+export const getContrastRatio = (a: string, b: string) => {
+  const [hi, lo] = [relativeLuminance(a), relativeLuminance(b)].sort((x, y) => y - x);
+  return (hi + 0.05) / (lo + 0.05);
+};
+
+// Lowest contrast of any note colour against the background
+export const getMinTrackContrast = (theme: ThemePalette) =>
+  Math.min(...theme.tracks.map(c => getContrastRatio(c, theme.background)));
+
+// Moves the colour's lightness away from the background until it reaches `min`, or as far as it can go
+const ensureContrast = (lab: Lab, background: string, min: number): Lab => {
+  const towardsDark = getContrastRatio('#000000', background) >= getContrastRatio('#ffffff', background);
+  let result = lab;
+  while (getContrastRatio(oklabToHex(result), background) < min) {
+    const L = result.L + (towardsDark ? -0.02 : 0.02);
+    if (L < 0 || L > 1) break;
+    result = withLightness(result, L);
+  }
+  return result;
+};
+
+// Pulls the colour's lightness towards the background by `amount` (0 to 1), never below `min` contrast
+const soften = (lab: Lab, bg: Lab, background: string, amount: number, min: number): Lab => {
+  let result = lab;
+  for (let step = 1; step <= 10; step++) {
+    const next = withLightness(lab, lab.L + (bg.L - lab.L) * amount * step / 10);
+    if (getContrastRatio(oklabToHex(next), background) < min) break;
+    result = next;
+  }
+  return result;
+};
+
+// --- CLUSTERING ---
+
+const getPixelData = async (imgSrc: string): Promise<Uint8ClampedArray> => {
+  const img = await loadImage(imgSrc);
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('No context');
+  canvas.width = SAMPLE_SIZE; canvas.height = SAMPLE_SIZE;
+  ctx.drawImage(img, 0, 0, SAMPLE_SIZE, SAMPLE_SIZE);
+  return ctx.getImageData(0, 0, SAMPLE_SIZE, SAMPLE_SIZE).data;
+};
+
+// k-means with k-means++ seeding from a fixed seed, so the same cover always gives the same palettes
+const kMeans = (points: Lab[], k: number): Cluster[] => {
+  if (points.length === 0) return [];
+  let seed = 7;
+  const random = () => {
+    seed = (seed * 1664525 + 1013904223) % 4294967296;
+    return seed / 4294967296;
+  };
+
+  const centres: Lab[] = [points[Math.floor(random() * points.length)]];
+  while (centres.length < k) {
+    const weights = points.map(p => Math.min(...centres.map(c => distance(p, c))) ** 2);
+    const total = weights.reduce((s, w) => s + w, 0);
+    if (total === 0) break;
+    let pick = random() * total;
+    let i = 0;
+    while (i < points.length - 1 && (pick -= weights[i]) > 0) i++;
+    centres.push(points[i]);
+  }
+
+  const assignment = new Int32Array(points.length);
+  for (let iteration = 0; iteration < 16; iteration++) {
+    let moved = false;
+    points.forEach((p, i) => {
+      let best = 0;
+      for (let c = 1; c < centres.length; c++) {
+        if (distance(p, centres[c]) < distance(p, centres[best])) best = c;
+      }
+      if (assignment[i] !== best) moved = true;
+      assignment[i] = best;
+    });
+    const sums = centres.map(() => ({ L: 0, a: 0, b: 0, n: 0 }));
+    points.forEach((p, i) => {
+      const s = sums[assignment[i]];
+      s.L += p.L; s.a += p.a; s.b += p.b; s.n++;
+    });
+    sums.forEach((s, c) => {
+      if (s.n > 0) centres[c] = { L: s.L / s.n, a: s.a / s.n, b: s.b / s.n };
+    });
+    if (!moved && iteration > 0) break;
+  }
+
+  const counts = new Array(centres.length).fill(0);
+  for (const c of assignment) counts[c]++;
+  return centres
+    .map((lab, c) => ({ lab, weight: counts[c] / points.length }))
+    .filter(c => c.weight > 0)
+    .sort((x, y) => y.weight - x.weight);
+};
+
+// --- PALETTES ---
+
+// Note colours for one background: the cover's clusters pushed to the minimum contrast, then picked
+// one by one as far as possible from the background and from each other. Lightness variations of the
+// first colour fill in when the cover has too few distinct colours.
+const buildPalette = (name: string, bg: Lab, clusters: Cluster[], contrast: number): NamedTheme => {
+  const background = oklabToHex(bg);
+  const boost = 1 + Math.max(0, contrast - 100) / 100;
+  const softness = Math.max(0, 100 - contrast) / 100;
+  const minTrack = MIN_TRACK_CONTRAST * boost;
+  const minText = MIN_TEXT_CONTRAST * boost;
+
+  const pool = clusters
+    .filter(c => distance(c.lab, bg) > DISTINCT)
+    .map(c => ({ lab: soften(ensureContrast(c.lab, background, minTrack), bg, background, softness, minTrack), weight: c.weight }));
+
+  // The most common colour leads and doubles as text and scope colour, so it meets the text minimum
+  const lead = pool.length > 0
+    ? pool.reduce((best, c) => c.weight * (1 + chroma(c.lab)) > best.weight * (1 + chroma(best.lab)) ? c : best).lab
+    : withLightness(bg, bg.L > 0.5 ? 0.15 : 0.95);
+  const chosen = [ensureContrast(lead, background, minText)];
+
+  while (chosen.length < TRACK_COUNT) {
+    let best: Lab | null = null;
+    let bestScore = DISTINCT;
+    for (const c of pool) {
+      const score = Math.min(...chosen.map(x => distance(x, c.lab))) * (0.75 + Math.sqrt(c.weight));
+      if (score > bestScore) {
+        best = c.lab;
+        bestScore = score;
+      }
+    }
+    if (!best) break;
+    chosen.push(best);
+  }
+  for (let step = 1; chosen.length < TRACK_COUNT && step <= 6; step++) {
+    const towardsBg = bg.L > chosen[0].L ? 1 : -1;
+    const variant = ensureContrast(withLightness(chosen[0], chosen[0].L + towardsBg * 0.12 * step), background, minTrack);
+    if (chosen.every(x => distance(x, variant) > DISTINCT / 2)) chosen.push(variant);
+  }
+
+  const tracks = chosen.map(oklabToHex);
+  return { name, theme: { background, scope: tracks[0], text: tracks[0], tracks } };
+};
+
+// Candidate themes for a cover, most faithful first: its dominant colour as background, then a light,
+// a dark and a vivid variation. `brightness` (0-200) shifts the background's lightness; `contrast`
+// (0-200) raises the minimum contrast above 100 and pulls notes towards the background below it,
+// never past the WCAG minimums.
+export const extractPalettes = async (
+  imgSrc: string | null,
+  brightness: number = 100,
+  contrast: number = 100
+): Promise<NamedTheme[]> => {
+  if (!imgSrc) return [];
+
+  try {
+    const data = await getPixelData(imgSrc);
+    const points: Lab[] = [];
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i + 3] < 128) continue;
+      points.push(rgbToOklab(data[i], data[i + 1], data[i + 2]));
+    }
+    const clusters = kMeans(points, CLUSTER_COUNT);
+    if (clusters.length === 0) return [{ name: 'Default', theme: DEFAULT_THEME }];
+
+    const sizeable = clusters.filter(c => c.weight >= 0.03);
+    const lightest = sizeable.reduce((x, y) => y.lab.L > x.lab.L ? y : x);
+    const darkest = sizeable.reduce((x, y) => y.lab.L < x.lab.L ? y : x);
+    const vivid = sizeable.reduce((x, y) => chroma(y.lab) * Math.sqrt(y.weight) > chroma(x.lab) * Math.sqrt(x.weight) ? y : x);
+    const shift = (brightness - 100) / 100 * 0.25;
+    const shifted = (lab: Lab) => withLightness(lab, lab.L + shift);
+
+    const candidates = [
+      buildPalette('Dominant', shifted(clusters[0].lab), clusters, contrast),
+      buildPalette('Light', shifted({ L: Math.max(lightest.lab.L, 0.93), a: lightest.lab.a * 0.4, b: lightest.lab.b * 0.4 }), clusters, contrast),
+      buildPalette('Dark', shifted({ L: Math.min(darkest.lab.L, 0.2), a: darkest.lab.a * 0.6, b: darkest.lab.b * 0.6 }), clusters, contrast),
+      buildPalette('Vivid', shifted(vivid.lab), clusters, contrast)
+    ];
+    return candidates.filter((c, i) => candidates.findIndex(o => isSameTheme(o.theme, c.theme)) === i);
+  } catch (e) {
+    console.warn("Theme extraction failed", e);
+    return [{ name: 'Default', theme: DEFAULT_THEME }];
+  }
+};
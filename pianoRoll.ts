@@ -0,0 +1,646 @@
+import {
+  AppSettings, MidiDocument, NoteEvent, NoteStyles, PianoRollOptions, PianoRollViewport,
+  TintinnabuliRole, TonicTriad
+} from './types';
+import {
+  applyTrackSettings, getHexLuminance, getNoteColor, getTrackKey, getTrackRowIndex, hexToRgb, PIANO_MAX_NOTE, PIANO_MIN_NOTE
+} from './utils';
+import { createIntervalIndex, getNoteIndex, IntervalIndex } from './noteIndex';
+
+// --- VIEWPORT ---
+
+export const DEFAULT_VIEWPORT: PianoRollViewport = {
+  orientation: 'horizontal',
+  window: 10,
+  playhead: 0.25,
+  minNote: PIANO_MIN_NOTE,
+  maxNote: PIANO_MAX_NOTE
+};
+
+// Lowest to highest note in use, padded by two keys and widened to at least an octave
+export const getFittedKeyRange = (notes: NoteEvent[]) => {
+  if (notes.length === 0) return { minNote: PIANO_MIN_NOTE, maxNote: PIANO_MAX_NOTE };
+  let lo = Infinity;
+  let hi = -Infinity;
+  for (const n of notes) {
+    lo = Math.min(lo, n.note);
+    hi = Math.max(hi, n.note);
+  }
+  lo -= 2;
+  hi += 2;
+  const missing = 12 - (hi - lo + 1);
+  if (missing > 0) {
+    lo -= Math.floor(missing / 2);
+    hi += Math.ceil(missing / 2);
+  }
+  return { minNote: Math.max(0, lo), maxNote: Math.min(127, hi) };
+};
+
+// Kept per document so viewports built every export frame share one array, and with it the tile cache
+const barTimesCache = new WeakMap<MidiDocument, number[]>();
+
+const getBarTimes = (midi: MidiDocument) => {
+  let barTimes = barTimesCache.get(midi);
+  if (!barTimes) {
+    barTimes = midi.beats.filter(b => b.bar !== null).map(b => b.time);
+    barTimesCache.set(midi, barTimes);
+  }
+  return barTimes;
+};
+
+export const getPianoRollViewport = (settings: AppSettings, midi: MidiDocument): PianoRollViewport => {
+  const range = settings.rollKeyRange === 'fit'
+    ? getFittedKeyRange(midi.notes)
+    : settings.rollKeyRange === 'custom'
+      ? { minNote: Math.min(settings.rollMinNote, settings.rollMaxNote), maxNote: Math.max(settings.rollMinNote, settings.rollMaxNote) }
+      : { minNote: PIANO_MIN_NOTE, maxNote: PIANO_MAX_NOTE };
+
+  const barTimes = getBarTimes(midi);
+  const inBars = settings.rollWindowUnit === 'bars' && barTimes.length >= 2;
+
+  return {
+    orientation: settings.rollOrientation,
+    window: inBars ? settings.rollWindowBars : settings.rollWindowSeconds,
+    playhead: settings.rollPlayhead,
+    ...range,
+    barTimes: inBars ? barTimes : undefined
+  };
+};
+
+// Fractional bar number at `time`, so every bar gets the same length on screen whatever the tempo.
+// Before the first and after the last bar, the nearest bar's length carries on.
+const toBarPosition = (time: number, barTimes: number[]) => {
+  const last = barTimes.length - 1;
+  if (time < barTimes[1]) return (time - barTimes[0]) / (barTimes[1] - barTimes[0]);
+  if (time >= barTimes[last]) return last + (time - barTimes[last]) / (barTimes[last] - barTimes[last - 1]);
+
+  let lo = 1;
+  let hi = last;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (barTimes[mid] <= time) lo = mid;
+    else hi = mid;
+  }
+  return lo + (time - barTimes[lo]) / (barTimes[lo + 1] - barTimes[lo]);
+};
+
+// Inverse of toBarPosition
+const fromBarPosition = (position: number, barTimes: number[]) => {
+  const last = barTimes.length - 1;
+  if (position < 1) return barTimes[0] + position * (barTimes[1] - barTimes[0]);
+  if (position >= last) return barTimes[last] + (position - last) * (barTimes[last] - barTimes[last - 1]);
+  const bar = Math.floor(position);
+  return barTimes[bar] + (position - bar) * (barTimes[bar + 1] - barTimes[bar]);
+};
+
+// --- NOTE STYLES ---
+
+export const NOTE_STYLE_PRESETS: { name: string; styles: NoteStyles }[] = [
+  { name: 'Classic', styles: { velocity: false, ripples: false, trails: false, connections: false } },
+  { name: 'Bells', styles: { velocity: true, ripples: true, trails: false, connections: false } },
+  { name: 'Comet', styles: { velocity: true, ripples: false, trails: true, connections: false } },
+  { name: 'Threads', styles: { velocity: true, ripples: false, trails: false, connections: true } },
+  { name: 'Constellation', styles: { velocity: false, ripples: true, trails: true, connections: true } }
+];
+
+const RIPPLE_SECONDS = 1.6;
+const TRAIL_SECONDS = 1.2;
+
+// Each note linked to the note nearest in pitch at the voice's next onset, cached per note list
+const connectionCache = new WeakMap<NoteEvent[], [NoteEvent, NoteEvent][]>();
+
+const getConnections = (notes: NoteEvent[]) => {
+  let links = connectionCache.get(notes);
+  if (links) return links;
+  links = [];
+
+  const voices = new Map<string, NoteEvent[]>();
+  for (const n of notes) {
+    const key = getTrackKey(n);
+    if (!voices.has(key)) voices.set(key, []);
+    voices.get(key)!.push(n);
+  }
+  for (const voice of voices.values()) {
+    voice.sort((a, b) => a.startTime - b.startTime);
+    let i = 0;
+    while (i < voice.length) {
+      let j = i;
+      while (j < voice.length && voice[j].startTime - voice[i].startTime < 1e-3) j++;
+      let k = j;
+      while (k < voice.length && voice[k].startTime - voice[j].startTime < 1e-3) k++;
+      for (let a = i; a < j; a++) {
+        let nearest: NoteEvent | null = null;
+        for (let b = j; b < k; b++) {
+          if (!nearest || Math.abs(voice[b].note - voice[a].note) < Math.abs(nearest.note - voice[a].note)) nearest = voice[b];
+        }
+        if (nearest) links.push([voice[a], nearest]);
+      }
+      i = j;
+    }
+  }
+  connectionCache.set(notes, links);
+  return links;
+};
+
+// Links indexed by the span they cross, from the first note's end to the second note's start
+const connectionIndexCache = new WeakMap<NoteEvent[], IntervalIndex<[NoteEvent, NoteEvent]>>();
+
+const getConnectionIndex = (notes: NoteEvent[]) => {
+  let index = connectionIndexCache.get(notes);
+  if (!index) {
+    index = createIntervalIndex(
+      getConnections(notes),
+      ([a, b]) => Math.min(a.startTime + a.duration, b.startTime),
+      ([a, b]) => Math.max(a.startTime + a.duration, b.startTime)
+    );
+    connectionIndexCache.set(notes, index);
+  }
+  return index;
+};
+
+// --- DRAWING FUNCTIONS ---
+
+// The roll draws the same way on the page, in the export loop and inside the render worker
+type RollContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+type RollCanvas = HTMLCanvasElement | OffscreenCanvas;
+
+type RollRect = { x: number; y: number; w: number; h: number };
+type RollRectMapper = (along: number, length: number, across: number, thickness: number) => RollRect;
+
+const isBlackKey = (note: number) => [1, 3, 6, 8, 10].includes(((note % 12) + 12) % 12);
+
+// Keyboard whose keys line up with the note lanes: black keys fill their own lane at 62% depth,
+// white keys also cover half of each neighbouring black lane. `active` maps notes to the colour they light up in.
+// Black keys sit on the outer edge like a DAW keyboard, or on the inner edge when notes fall onto the keys.
+const drawKeyboardStrip = (
+  ctx: RollContext,
+  toRect: RollRectMapper,
+  depth: number,
+  minNote: number,
+  maxNote: number,
+  laneSize: number,
+  active: Map<number, string>,
+  blackKeysOutside: boolean
+) => {
+  const outline = 'rgba(0,0,0,0.25)';
+  const strip = toRect(0, depth, 0, (maxNote - minNote + 1) * laneSize);
+  ctx.fillStyle = '#fdfcf7';
+  ctx.fillRect(strip.x, strip.y, strip.w, strip.h);
+
+  ctx.lineWidth = 1;
+  ctx.strokeStyle = outline;
+  for (let note = minNote; note <= maxNote; note++) {
+    if (isBlackKey(note)) continue;
+    const lo = (note - minNote - (isBlackKey(note - 1) ? 0.5 : 0)) * laneSize;
+    const hi = (note - minNote + 1 + (isBlackKey(note + 1) ? 0.5 : 0)) * laneSize;
+    const r = toRect(0, depth, lo, hi - lo);
+    const color = active.get(note);
+    if (color) {
+      ctx.fillStyle = color;
+      ctx.fillRect(r.x, r.y, r.w, r.h);
+    }
+    ctx.strokeRect(r.x, r.y, r.w, r.h);
+  }
+
+  for (let note = minNote; note <= maxNote; note++) {
+    if (!isBlackKey(note)) continue;
+    const r = toRect(blackKeysOutside ? 0 : depth * 0.38, depth * 0.62, (note - minNote) * laneSize, laneSize);
+    ctx.fillStyle = active.get(note) ?? '#1a1a1a';
+    ctx.fillRect(r.x, r.y, r.w, r.h);
+    ctx.strokeRect(r.x, r.y, r.w, r.h);
+  }
+};
+
+// Role colours: the melody takes the first theme colour, the triad voice the second
+const getRoleColor = (role: TintinnabuliRole, palette: string[]) =>
+  role.role === 'M' ? palette[0] : palette[1 % palette.length];
+
+// '+1' for first position superior, '−2' for second position inferior
+const formatVoicePosition = (position: NonNullable<TintinnabuliRole['position']>) =>
+  `${position.side === 'superior' ? '+' : '−'}${position.order}`;
+
+const drawVoiceLegend = (
+  ctx: RollContext,
+  triad: TonicTriad,
+  palette: string[],
+  textColor: string,
+  width: number,
+  height: number
+) => {
+  const size = Math.max(12, Math.min(width, height) * 0.018);
+  const pad = size * 0.8;
+  const swatch = size * 1.4;
+  const lines = [
+    { label: 'M-voice (melody)', role: { role: 'M', position: null } as TintinnabuliRole },
+    { label: 'T-voice (triad)', role: { role: 'T', position: null } as TintinnabuliRole }
+  ];
+  const caption = `${triad.name} triad · ${triad.source}`;
+
+  ctx.save();
+  ctx.font = `${size}px "Cormorant Garamond", serif`;
+  ctx.textBaseline = 'middle';
+  const boxW = pad * 3 + swatch + Math.max(...lines.map(l => ctx.measureText(l.label).width), ctx.measureText(caption).width - swatch - pad);
+  const boxH = pad * 2 + size * 1.6 * 3;
+  const x = width - boxW - pad;
+  const y = pad;
+
+  ctx.globalAlpha = 0.75;
+  ctx.fillStyle = getHexLuminance(textColor) < 128 ? '#ffffff' : '#000000';
+  ctx.fillRect(x, y, boxW, boxH);
+  ctx.globalAlpha = 1;
+
+  lines.forEach((line, i) => {
+    const cy = y + pad + size * 1.6 * (i + 0.5);
+    const color = getRoleColor(line.role, palette);
+    ctx.fillStyle = color;
+    ctx.strokeStyle = color;
+    ctx.lineWidth = Math.max(1.5, size * 0.12);
+    if (line.role.role === 'M') ctx.fillRect(x + pad, cy - size * 0.35, swatch, size * 0.7);
+    else ctx.strokeRect(x + pad, cy - size * 0.35, swatch, size * 0.7);
+    ctx.fillStyle = textColor;
+    ctx.fillText(line.label, x + pad * 2 + swatch, cy);
+  });
+
+  ctx.globalAlpha = 0.7;
+  ctx.font = `italic ${size}px "Cormorant Garamond", serif`;
+  ctx.fillText(caption, x + pad, y + pad + size * 1.6 * 2.5);
+  ctx.restore();
+};
+
+const traceNote = (ctx: RollContext, r: RollRect, radius: number) => {
+  ctx.beginPath();
+  if (ctx.roundRect) ctx.roundRect(r.x, r.y, r.w, r.h, radius);
+  else ctx.rect(r.x, r.y, r.w, r.h);
+};
+
+// --- TILE CACHE ---
+
+// Everything that doesn't depend on the playhead (grid, connections, note bodies, position labels) is
+// painted once into tiles half a window long that then scroll past. Only the notes sounding around
+// the playhead are drawn every frame, found through the note index.
+const MAX_TILES = 8;
+// Notes reaching this far past a tile's ends are painted into it too, so shadows and labels carry over
+const TILE_MARGIN_PX = 32;
+
+interface TileCache {
+  key: string;
+  tiles: Map<number, RollCanvas>;
+  // Back-to-front position of every visible note
+  layer: Map<NoteEvent, number>;
+}
+
+const tileCaches = new WeakMap<RollContext, TileCache>();
+
+const objectIds = new WeakMap<object, number>();
+let nextObjectId = 1;
+
+// Identity of the large inputs, so the scene key never has to serialise them
+const objectId = (value: object | undefined) => {
+  if (!value) return 0;
+  let id = objectIds.get(value);
+  if (!id) {
+    id = nextObjectId++;
+    objectIds.set(value, id);
+  }
+  return id;
+};
+
+// OffscreenCanvas where it has a 2D context (always, inside the worker), a detached canvas otherwise
+const createRollCanvas = (width: number, height: number): { canvas: RollCanvas; ctx: RollContext } => {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    const canvas = new OffscreenCanvas(width, height);
+    const ctx = canvas.getContext('2d');
+    if (ctx) return { canvas, ctx };
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return { canvas, ctx: canvas.getContext('2d')! };
+};
+
+const getTileCache = (ctx: RollContext, key: string, notes: NoteEvent[], options: PianoRollOptions) => {
+  let cache = tileCaches.get(ctx);
+  if (!cache || cache.key !== key) {
+    const drawList = options.tracks ? applyTrackSettings(notes, options.tracks) : notes;
+    cache = { key, tiles: new Map(), layer: new Map(drawList.map((n, i) => [n, i])) };
+    tileCaches.set(ctx, cache);
+  }
+  return cache;
+};
+
+// True where components/PianoRoll can hand its canvas to pianoRollWorker.ts
+export const canRenderInWorker = () =>
+  typeof Worker !== 'undefined' &&
+  typeof OffscreenCanvas !== 'undefined' &&
+  typeof HTMLCanvasElement !== 'undefined' &&
+  'transferControlToOffscreen' in HTMLCanvasElement.prototype;
+
+export const drawPianoRoll = (
+  ctx: RollContext,
+  notes: NoteEvent[],
+  currentTime: number,
+  palette: string[],
+  backgroundColor: string,
+  width: number,
+  height: number,
+  options: PianoRollOptions = {}
+) => {
+  ctx.save();
+  ctx.globalAlpha = options.backgroundOpacity ?? 1;
+  ctx.fillStyle = backgroundColor;
+  ctx.fillRect(0, 0, width, height);
+  ctx.globalAlpha = 1;
+
+  const bgLum = getHexLuminance(backgroundColor);
+  const isDarkBg = bgLum < 128;
+
+  const view = options.viewport ?? DEFAULT_VIEWPORT;
+  const isFalling = view.orientation === 'falling';
+
+  // Time runs along the "time axis" (x when horizontal, upwards when falling), keys across the other
+  const timeLength = isFalling ? height : width;
+  const keyLength = isFalling ? width : height;
+  const TOTAL_KEYS = view.maxNote - view.minNote + 1;
+  const NOTE_HEIGHT = keyLength / TOTAL_KEYS;
+  // The keyboard takes the trailing edge; the playhead position is measured from its inner side
+  const KEYBOARD = options.keyboard ? timeLength * 0.07 : 0;
+  const PX_PER_UNIT = (timeLength - KEYBOARD) / view.window;
+  const PLAYHEAD = KEYBOARD + (timeLength - KEYBOARD) * view.playhead;
+
+  const barTimes = view.barTimes;
+  const axis = barTimes ? (t: number) => toBarPosition(t, barTimes) : (t: number) => t;
+  const fromAxis = barTimes ? (p: number) => fromBarPosition(p, barTimes) : (p: number) => p;
+  const now = axis(currentTime);
+  const timeToPx = (t: number) => PLAYHEAD + (axis(t) - now) * PX_PER_UNIT;
+
+  // Distance along the time axis and offset across the keys, mapped to rectangles on a canvas
+  // whose time axis is `span` long
+  const rectMapper = (span: number): RollRectMapper => (along, length, across, thickness) => isFalling
+    ? { x: across, y: span - along - length, w: thickness, h: length }
+    : { x: along, y: keyLength - across - thickness, w: length, h: thickness };
+  const pointMapper = (span: number) => (along: number, across: number) => isFalling
+    ? { x: across, y: span - along }
+    : { x: along, y: keyLength - across };
+  const toRect = rectMapper(timeLength);
+  const toPoint = pointMapper(timeLength);
+
+  // Playhead line
+  const playheadLine = toRect(PLAYHEAD, 0, 0, keyLength);
+  ctx.beginPath();
+  ctx.moveTo(playheadLine.x, playheadLine.y);
+  ctx.lineTo(playheadLine.x + playheadLine.w, playheadLine.y + playheadLine.h);
+  ctx.lineWidth = Math.max(2, timeLength * 0.002);
+  ctx.strokeStyle = isDarkBg ? 'rgba(255,255,255,0.4)' : 'rgba(0,0,0,0.3)';
+  ctx.stroke();
+
+  const voices = options.voices;
+  const styles = options.styles;
+  const labelSize = Math.min(NOTE_HEIGHT * 0.8, 16);
+
+  const rows = getTrackRowIndex(notes);
+  const colorOf = (n: NoteEvent) => {
+    const role = voices?.analysis.roles.get(n);
+    return role ? getRoleColor(role, palette) : getNoteColor(n, palette, rows, options.tracks);
+  };
+  const laneCentre = (note: number) => (note - view.minNote + 0.575) * NOTE_HEIGHT;
+  const inRange = (note: number) => note >= view.minNote && note <= view.maxNote;
+
+  // Each lane keeps a small gap on its low-pitch side; velocity styling thins quiet notes around the lane centre
+  const noteShape = (n: NoteEvent) => {
+    const loudness = styles?.velocity ? n.velocity / 127 : 1;
+    const thickness = NOTE_HEIGHT * 0.85 * (styles?.velocity ? 0.45 + 0.55 * loudness : 1);
+    return {
+      thickness,
+      across: (n.note - view.minNote + 0.15) * NOTE_HEIGHT + (NOTE_HEIGHT * 0.85 - thickness) / 2,
+      opacity: styles?.velocity ? 0.3 + 0.7 * loudness : 1
+    };
+  };
+
+  // Tiles are rendered at the device resolution of the target, whatever scaling it is drawn with
+  const scale = Math.min(4, Math.max(0.5, Math.abs(ctx.getTransform().a)));
+  const cache = getTileCache(ctx, JSON.stringify([
+    objectId(notes), objectId(options.beats), objectId(barTimes), objectId(voices?.analysis), voices?.positions,
+    palette, backgroundColor, width, height, scale, view.orientation, view.window, view.minNote, view.maxNote,
+    options.keyboard, options.tracks, styles?.velocity, styles?.connections
+  ]), notes, options);
+  const byLayer = (a: NoteEvent, b: NoteEvent) => cache.layer.get(a)! - cache.layer.get(b)!;
+
+  const TILE_UNITS = view.window / 2;
+  const tileLength = Math.ceil(TILE_UNITS * PX_PER_UNIT * scale) + 1;
+
+  const paintTile = (index: number) => {
+    const start = index * TILE_UNITS;
+    const span = tileLength / scale;
+    const across = Math.ceil(keyLength * scale);
+    const { canvas, ctx: tile } = createRollCanvas(isFalling ? across : tileLength, isFalling ? tileLength : across);
+    tile.scale(scale, scale);
+
+    const localPx = (t: number) => (axis(t) - start) * PX_PER_UNIT;
+    const localRect = rectMapper(span);
+    const localPoint = pointMapper(span);
+    const margin = TILE_MARGIN_PX / PX_PER_UNIT;
+    const from = fromAxis(start - margin);
+    const to = fromAxis(start + TILE_UNITS + margin);
+
+    // Bar and beat grid from the tempo map
+    if (options.beats) {
+      const gridWidth = Math.max(1, timeLength * 0.0008);
+      for (const beat of options.beats) {
+        if (beat.time < from || beat.time > to) continue;
+        const alpha = beat.bar !== null ? 0.14 : 0.05;
+        const thickness = beat.bar !== null ? gridWidth * 2 : gridWidth;
+        const r = localRect(localPx(beat.time) - gridWidth / 2, thickness, 0, keyLength);
+        tile.fillStyle = isDarkBg ? `rgba(255,255,255,${alpha})` : `rgba(0,0,0,${alpha})`;
+        tile.fillRect(r.x, r.y, r.w, r.h);
+      }
+    }
+
+    if (styles?.connections) {
+      tile.lineWidth = Math.max(1, NOTE_HEIGHT * 0.08);
+      tile.globalAlpha = 0.35;
+      for (const [a, b] of getConnectionIndex(notes).query(from, to)) {
+        if (!cache.layer.has(a) || !cache.layer.has(b) || !inRange(a.note) || !inRange(b.note)) continue;
+        const p0 = localPoint(localPx(a.startTime + a.duration), laneCentre(a.note));
+        const p1 = localPoint(localPx(b.startTime), laneCentre(b.note));
+        tile.strokeStyle = colorOf(a);
+        tile.beginPath();
+        tile.moveTo(p0.x, p0.y);
+        tile.lineTo(p1.x, p1.y);
+        tile.stroke();
+      }
+      tile.globalAlpha = 1.0;
+    }
+
+    const positionLabels: { text: string; color: string; x: number; y: number }[] = [];
+    const shown = getNoteIndex(notes).query(from, to).filter(n => cache.layer.has(n) && inRange(n.note)).sort(byLayer);
+    for (const n of shown) {
+      const along = localPx(n.startTime);
+      const length = Math.max(localPx(n.startTime + n.duration) - along, 3);
+      const { thickness, across: offset, opacity } = noteShape(n);
+      const role = voices?.analysis.roles.get(n);
+      const fillStyle = colorOf(n);
+
+      if (role?.role === 'T') {
+        // Triad notes are drawn hollow so the melody stays the solid line
+        const line = Math.max(1.5, NOTE_HEIGHT * 0.15);
+        tile.strokeStyle = fillStyle;
+        tile.lineWidth = line;
+        tile.globalAlpha = 0.9 * opacity;
+        traceNote(tile, localRect(along + line / 2, length - line, offset + line / 2, thickness - line), 3);
+        tile.stroke();
+      } else {
+        tile.fillStyle = fillStyle;
+        tile.globalAlpha = 0.9 * opacity;
+        tile.shadowBlur = 4;
+        tile.shadowColor = isDarkBg ? 'rgba(0,0,0,0.5)' : 'rgba(0,0,0,0.1)';
+        tile.shadowOffsetX = 2;
+        tile.shadowOffsetY = 2;
+        traceNote(tile, localRect(along, length, offset, thickness), 3);
+        tile.fill();
+        tile.shadowBlur = 0;
+        tile.shadowOffsetX = 0;
+        tile.shadowOffsetY = 0;
+      }
+      tile.globalAlpha = 1.0;
+
+      if (voices?.positions && role?.position && labelSize >= 6) {
+        // Just before the note on the time axis, centred on its lane
+        const r = localRect(along - labelSize * 1.4, labelSize * 1.4, offset, thickness);
+        positionLabels.push({ text: formatVoicePosition(role.position), color: fillStyle, x: r.x + r.w / 2, y: r.y + r.h / 2 });
+      }
+    }
+
+    if (positionLabels.length > 0) {
+      tile.font = `${labelSize}px "Cormorant Garamond", serif`;
+      tile.textAlign = 'center';
+      tile.textBaseline = 'middle';
+      for (const label of positionLabels) {
+        tile.fillStyle = label.color;
+        tile.fillText(label.text, label.x, label.y);
+      }
+    }
+    return canvas;
+  };
+
+  // Tiles covering the visible stretch of the time axis, snapped to device pixels so they meet without seams
+  const firstTile = Math.floor((now - PLAYHEAD / PX_PER_UNIT) / TILE_UNITS);
+  const lastTile = Math.floor((now + (timeLength - PLAYHEAD) / PX_PER_UNIT) / TILE_UNITS);
+  for (let i = firstTile; i <= lastTile; i++) {
+    const tile = cache.tiles.get(i) ?? paintTile(i);
+    // Most recently used last, so the oldest tiles are the first to go
+    cache.tiles.delete(i);
+    cache.tiles.set(i, tile);
+
+    const offset = Math.round((PLAYHEAD + (i * TILE_UNITS - now) * PX_PER_UNIT) * scale) / scale;
+    const w = tile.width / scale;
+    const h = tile.height / scale;
+    if (isFalling) ctx.drawImage(tile, 0, height - offset - h, w, h);
+    else ctx.drawImage(tile, offset, 0, w, h);
+  }
+  for (const index of cache.tiles.keys()) {
+    if (cache.tiles.size <= MAX_TILES) break;
+    cache.tiles.delete(index);
+  }
+
+  // Sounding notes, trails and ripples only concern notes around the playhead
+  const activeKeys = new Map<number, string>();
+  const ripples: { along: number; across: number; age: number; color: string }[] = [];
+  const recent = getNoteIndex(notes)
+    .query(currentTime - Math.max(RIPPLE_SECONDS, TRAIL_SECONDS), currentTime)
+    .filter(n => cache.layer.has(n) && inRange(n.note))
+    .sort(byLayer);
+
+  for (const n of recent) {
+    const along = timeToPx(n.startTime);
+    const length = Math.max(timeToPx(n.startTime + n.duration) - along, 3);
+    if (along + length <= -100 || along >= timeLength + 100) continue;
+    const { thickness, across, opacity } = noteShape(n);
+    const fillStyle = colorOf(n);
+    const isActive = currentTime >= n.startTime && currentTime <= (n.startTime + n.duration);
+    const sinceOn = currentTime - n.startTime;
+    const sinceOff = currentTime - (n.startTime + n.duration);
+
+    if (styles?.ripples && sinceOn >= 0 && sinceOn < RIPPLE_SECONDS) {
+      ripples.push({ along: PLAYHEAD, across: laneCentre(n.note), age: sinceOn, color: fillStyle });
+    }
+
+    // Streak from the note's tail to the playhead, fading as the note moves away
+    if (styles?.trails && sinceOff >= 0 && sinceOff < TRAIL_SECONDS) {
+      const tail = along + length;
+      const fade = 1 - sinceOff / TRAIL_SECONDS;
+      const r = toRect(tail, Math.max(0, PLAYHEAD - tail), across, thickness);
+      const p0 = toPoint(tail, 0);
+      const p1 = toPoint(PLAYHEAD, 0);
+      const gradient = ctx.createLinearGradient(p0.x, p0.y, p1.x, p1.y);
+      gradient.addColorStop(0, fillStyle);
+      const rgb = hexToRgb(fillStyle) ?? { r: 0, g: 0, b: 0 };
+      gradient.addColorStop(1, `rgba(${rgb.r},${rgb.g},${rgb.b},0)`);
+      ctx.globalAlpha = 0.45 * fade * opacity;
+      ctx.fillStyle = gradient;
+      ctx.fillRect(r.x, r.y, r.w, r.h);
+      ctx.globalAlpha = 1.0;
+    }
+
+    // Sounding notes glow on top of their cached bodies
+    if (isActive) {
+      activeKeys.set(n.note, fillStyle);
+      ctx.globalAlpha = opacity;
+      ctx.shadowBlur = 15;
+      ctx.shadowColor = fillStyle;
+      ctx.fillStyle = isDarkBg ? '#ffffff' : fillStyle;
+      traceNote(ctx, toRect(along - 1, length + 2, across - 1, thickness + 2), 4);
+      ctx.fill();
+      ctx.globalAlpha = 1.0;
+      ctx.shadowBlur = 0;
+    }
+  }
+
+  // Two rings per note-on, the second a little later, growing and fading like a struck bell
+  if (ripples.length > 0) {
+    const maxRadius = Math.max(NOTE_HEIGHT * 8, timeLength * 0.04);
+    ctx.lineWidth = Math.max(1, NOTE_HEIGHT * 0.1);
+    for (const ripple of ripples) {
+      const centre = toPoint(ripple.along, ripple.across);
+      ctx.strokeStyle = ripple.color;
+      for (const delay of [0, 0.25]) {
+        const t = (ripple.age - delay) / (RIPPLE_SECONDS - delay);
+        if (t < 0 || t >= 1) continue;
+        ctx.globalAlpha = 0.6 * (1 - t) ** 2;
+        ctx.beginPath();
+        ctx.arc(centre.x, centre.y, NOTE_HEIGHT * 0.5 + t * maxRadius, 0, Math.PI * 2);
+        ctx.stroke();
+      }
+    }
+    ctx.globalAlpha = 1.0;
+  }
+
+  // Section labels: a line across the keys and the marker's name at the high-pitch edge
+  if (options.markers?.length) {
+    const fontSize = Math.max(12, Math.min(24, keyLength * 0.03));
+    ctx.font = `italic ${fontSize}px "Cormorant Garamond", serif`;
+    ctx.textAlign = isFalling ? 'right' : 'left';
+    ctx.textBaseline = isFalling ? 'bottom' : 'top';
+    ctx.fillStyle = ctx.strokeStyle = isDarkBg ? 'rgba(255,255,255,0.6)' : 'rgba(0,0,0,0.55)';
+    ctx.lineWidth = Math.max(1, timeLength * 0.001);
+    for (const marker of options.markers) {
+      const along = timeToPx(marker.time);
+      if (along < KEYBOARD || along > timeLength) continue;
+      const line = toRect(along, 0, 0, keyLength);
+      ctx.beginPath();
+      ctx.moveTo(line.x, line.y);
+      ctx.lineTo(line.x + line.w, line.y + line.h);
+      ctx.stroke();
+      const label = toPoint(along + fontSize * 0.3, keyLength - fontSize * 0.3);
+      ctx.fillText(marker.text, label.x, label.y);
+    }
+  }
+
+  if (options.keyboard) {
+    drawKeyboardStrip(ctx, toRect, KEYBOARD, view.minNote, view.maxNote, NOTE_HEIGHT, activeKeys, !isFalling);
+  }
+
+  if (voices?.legend) {
+    drawVoiceLegend(ctx, voices.analysis.triad, palette, isDarkBg ? '#ffffff' : '#1a1a1a', width, height);
+  }
+  ctx.restore();
+};
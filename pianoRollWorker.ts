@@ -0,0 +1,62 @@
+import { NoteEvent, PianoRollOptions, PianoRollWorkerMessage, TintinnabuliAnalysis } from './types';
+import { drawPianoRoll } from './pianoRoll';
+
+// Draws components/PianoRoll's canvas off the main thread. Frames arrive faster than a slow draw can
+// finish, so only the latest time is kept and drawn once per animation frame.
+
+// tsconfig only has the DOM lib, so the worker scope is typed by hand
+const scope = self as unknown as {
+  onmessage: ((e: MessageEvent<PianoRollWorkerMessage>) => void) | null;
+  requestAnimationFrame?: (callback: () => void) => number;
+};
+
+let canvas: OffscreenCanvas | null = null;
+let ctx: OffscreenCanvasRenderingContext2D | null = null;
+let notes: NoteEvent[] = [];
+let analysis: TintinnabuliAnalysis | null = null;
+let scene: Extract<PianoRollWorkerMessage, { type: 'scene' }> | null = null;
+let time = 0;
+let scheduled = false;
+
+const draw = () => {
+  scheduled = false;
+  if (!canvas || !ctx || !scene) return;
+
+  const { width, height, dpr, palette, backgroundColor } = scene;
+  if (canvas.width !== Math.round(width * dpr)) canvas.width = Math.round(width * dpr);
+  if (canvas.height !== Math.round(height * dpr)) canvas.height = Math.round(height * dpr);
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  ctx.clearRect(0, 0, width, height);
+
+  const { voices, ...rest } = scene.options;
+  const options: PianoRollOptions = { ...rest, voices: voices && analysis ? { ...voices, analysis } : undefined };
+  drawPianoRoll(ctx, notes, time, palette, backgroundColor, width, height, options);
+};
+
+const scheduleDraw = () => {
+  if (scheduled) return;
+  scheduled = true;
+  if (scope.requestAnimationFrame) scope.requestAnimationFrame(draw);
+  else setTimeout(draw, 0);
+};
+
+scope.onmessage = (e) => {
+  const message = e.data;
+  switch (message.type) {
+    case 'init':
+      canvas = message.canvas;
+      ctx = canvas.getContext('2d');
+      break;
+    case 'notes':
+      notes = message.notes;
+      analysis = message.analysis;
+      break;
+    case 'scene':
+      scene = message;
+      break;
+    case 'frame':
+      time = message.time;
+      break;
+  }
+  scheduleDraw();
+};
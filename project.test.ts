@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { strToU8, zipSync } from 'fflate';
+import { parseProject, PROJECT_FORMAT, PROJECT_VERSION, sanitizeSettings } from './project';
+import { DEFAULT_SETTINGS, DEFAULT_THEME } from './types';
+
+const projectWith = (settings: Record<string, unknown>) => new Blob([zipSync({
+  'manifest.json': strToU8(JSON.stringify({
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    settings,
+    generatedTheme: DEFAULT_THEME,
+    notes: [],
+    files: {},
+    audioReference: null
+  }))
+})]);
+
+describe('parseProject', () => {
+  it('clamps out-of-range numbers to what the settings panel allows', async () => {
+    const { settings } = await parseProject(projectWith({
+      rollWindowSeconds: 0,
+      rollWindowBars: 0,
+      rollPlayhead: 1,
+      exportFps: 0,
+      imageZoom: -2,
+      scopeWindowMs: 1000,
+      offsetMs: -9000,
+      background: { blur: 500, noise: -1 },
+      reactions: { titleFade: 60 }
+    }));
+
+    expect(settings.rollWindowSeconds).toBe(2);
+    expect(settings.rollWindowBars).toBe(1);
+    expect(settings.rollPlayhead).toBe(0.9);
+    expect(settings.exportFps).toBe(DEFAULT_SETTINGS.exportFps);
+    expect(settings.imageZoom).toBe(1);
+    expect(settings.scopeWindowMs).toBe(200);
+    expect(settings.offsetMs).toBe(-2000);
+    expect(settings.background.blur).toBe(80);
+    expect(settings.background.noise).toBe(0);
+    expect(settings.reactions.titleFade).toBe(5);
+  });
+
+  it('keeps in-range values', async () => {
+    const { settings } = await parseProject(projectWith({ rollWindowSeconds: 12.5, exportFps: 60, imageZoom: 2 }));
+    expect(settings.rollWindowSeconds).toBe(12.5);
+    expect(settings.exportFps).toBe(60);
+    expect(settings.imageZoom).toBe(2);
+  });
+});
+
+describe('sanitizeSettings', () => {
+  it('falls back to the defaults for values of the wrong type or unknown options', () => {
+    const settings = sanitizeSettings({ rollWindowSeconds: '10', scopeMode: 'surround', themeBrightness: NaN });
+    expect(settings.rollWindowSeconds).toBe(DEFAULT_SETTINGS.rollWindowSeconds);
+    expect(settings.scopeMode).toBe(DEFAULT_SETTINGS.scopeMode);
+    expect(settings.themeBrightness).toBe(DEFAULT_SETTINGS.themeBrightness);
+  });
+});
@@ -0,0 +1,337 @@
+import { zipSync, unzipSync, strToU8, strFromU8, Zippable } from 'fflate';
+import {
+  AppSettings, BackgroundGradient, BackgroundLayers, CoverReactions, DEFAULT_SETTINGS, NoteEvent, Project, ProjectFile,
+  ThemePalette, TrackSettings, TrackStyle
+} from './types';
+import { PIANO_MAX_NOTE, PIANO_MIN_NOTE } from './utils';
+import { sanitizeTheme } from './themes';
+import { isAspectRatio, sanitizeLayout } from './layout';
+import { isTextFont, sanitizeCaptions } from './text';
+import { sanitizeLyrics } from './lyrics';
+
+// Project files are zips holding manifest.json plus the original MIDI, cover and (optionally) audio files
+export const PROJECT_FORMAT = 'tintinnabuli-project';
+export const PROJECT_VERSION = 1;
+export const PROJECT_EXTENSION = '.tintin';
+
+const MANIFEST_PATH = 'manifest.json';
+
+interface ManifestFile {
+  path: string;
+  name: string;
+  type: string;
+}
+
+interface ProjectManifest {
+  format: string;
+  version: number;
+  savedAt: string;
+  settings: AppSettings;
+  generatedTheme: ThemePalette;
+  notes: NoteEvent[] | null;
+  files: { midi?: ManifestFile; cover?: ManifestFile; audio?: ManifestFile };
+  audioReference: { name: string; size: number } | null;
+}
+
+// Upgrades a manifest saved by version N to N + 1. Settings added since a file was saved don't need
+// an entry here: sanitizeSettings fills them from DEFAULT_SETTINGS.
+const MIGRATIONS: Record<number, (manifest: Record<string, unknown>) => Record<string, unknown>> = {};
+
+// Returns the manifest upgraded to PROJECT_VERSION; its fields are still unchecked
+const migrateManifest = (raw: unknown): Record<string, unknown> => {
+  if (!isPlainObject(raw) || raw.format !== PROJECT_FORMAT) {
+    throw new Error('Not a Tintinnabuli project file');
+  }
+  const version = raw.version;
+  if (typeof version !== 'number' || version < 1) {
+    throw new Error('Project file has no valid version');
+  }
+  if (version > PROJECT_VERSION) {
+    throw new Error(`Project was saved by a newer version (format ${version}, this app reads up to ${PROJECT_VERSION})`);
+  }
+
+  let manifest = raw;
+  for (let v = version; v < PROJECT_VERSION; v++) {
+    const migrate = MIGRATIONS[v];
+    if (!migrate) throw new Error(`No migration from project format ${v}`);
+    manifest = { ...migrate(manifest), version: v + 1 };
+  }
+  return manifest;
+};
+
+// --- VALIDATION ---
+
+const isPlainObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// Allowed values of the settings that pick one of a fixed set of options
+const SETTING_CHOICES: { [K in keyof AppSettings]?: readonly AppSettings[K][] } = {
+  themeMode: ['normal', 'image', 'custom'],
+  scopeSource: ['live', 'buffer'],
+  scopeMode: ['mono', 'stacked', 'xy', 'midside'],
+  scopeSync: ['free', 'trigger', 'pitch'],
+  analysisView: ['scope', 'spectrum', 'spectrogram', 'scope+spectrogram'],
+  spectrumStyle: ['bars', 'line'],
+  synthTimbre: ['bell', 'piano', 'organ'],
+  rollOrientation: ['horizontal', 'falling'],
+  rollWindowUnit: ['seconds', 'bars'],
+  rollKeyRange: ['full', 'fit', 'custom'],
+  exportFormat: ['mp4', 'webm'],
+  exportFps: [30, 60],
+  exportResolution: ['1080p', '4k']
+};
+
+// Numeric fields are clamped to what their sliders allow: a zero-length piano roll window, say,
+// would make the roll's tile size NaN
+type NumberRanges<T> = { [K in keyof T]?: T[K] extends number ? readonly [number, number] : never };
+
+const SETTING_RANGES: NumberRanges<AppSettings> = {
+  offsetMs: [-2000, 2000],
+  themeBrightness: [0, 200],
+  themeContrast: [0, 200],
+  themeCandidate: [0, Infinity],
+  imageZoom: [1, 4],
+  imageOffsetY: [-50, 50],
+  scopeLineWidth: [0.5, 10],
+  scopeWindowMs: [5, 200],
+  scopeTriggerLevel: [-1, 1],
+  scopeTriggerHysteresis: [0, 0.5],
+  rollWindowSeconds: [2, 30],
+  rollWindowBars: [1, 16],
+  rollPlayhead: [0, 0.9],
+  rollMinNote: [PIANO_MIN_NOTE, PIANO_MAX_NOTE],
+  rollMaxNote: [PIANO_MIN_NOTE, PIANO_MAX_NOTE]
+};
+
+const BACKGROUND_RANGES: NumberRanges<BackgroundLayers> = {
+  cover: [0, 1],
+  blur: [0, 80],
+  gradientStrength: [0, 1],
+  noise: [0, 1],
+  grain: [0, 1],
+  vignette: [0, 1],
+  panelOpacity: [0, 1]
+};
+
+const REACTION_RANGES: NumberRanges<CoverReactions> = {
+  pulse: [0, 1],
+  glow: [0, 1],
+  kenBurns: [0, 1],
+  titleFade: [0, 5]
+};
+
+const BACKGROUND_GRADIENTS: BackgroundGradient[] = ['none', 'linear', 'radial'];
+
+// Keeps each field of raw whose type matches the same field of the defaults (finite numbers only);
+// missing or mistyped fields keep their default
+const mergeFields = <T extends object>(defaults: T, raw: unknown): T => {
+  const merged = { ...defaults };
+  if (!isPlainObject(raw)) return merged;
+  const fields: Record<keyof T, unknown> = merged;
+  for (const key of Object.keys(defaults) as (keyof T & string)[]) {
+    const value = raw[key];
+    const fallback = defaults[key];
+    const matches = Array.isArray(fallback)
+      ? Array.isArray(value)
+      : isPlainObject(fallback) ? isPlainObject(value) : typeof value === typeof fallback;
+    if (matches && (typeof value !== 'number' || Number.isFinite(value))) fields[key] = value;
+  }
+  return merged;
+};
+
+const clampFields = <T extends object>(values: T, ranges: NumberRanges<T>): T => {
+  const fields: Record<keyof T, unknown> = values;
+  for (const [key, [min, max]] of Object.entries(ranges) as [keyof T, [number, number]][]) {
+    fields[key] = Math.min(max, Math.max(min, values[key] as number));
+  }
+  return values;
+};
+
+const isTrackStyle = (v: unknown): v is TrackStyle =>
+  isPlainObject(v) && typeof v.visible === 'boolean' && typeof v.solo === 'boolean' &&
+  (v.color === null || typeof v.color === 'string');
+
+const sanitizeTracks = (raw: unknown): TrackSettings => {
+  if (!isPlainObject(raw)) return DEFAULT_SETTINGS.tracks;
+  const styles = isPlainObject(raw.styles)
+    ? Object.fromEntries(Object.entries(raw.styles).filter(([, style]) => isTrackStyle(style))) as Record<string, TrackStyle>
+    : {};
+  const order = Array.isArray(raw.order) ? raw.order.filter((key): key is string => typeof key === 'string') : [];
+  return { styles, order };
+};
+
+// Keeps each stored setting whose type (and, for options, value) matches the default, so unknown,
+// missing or corrupt fields fall back to their defaults and out-of-range numbers are clamped
+// instead of breaking the UI
+export const sanitizeSettings = (raw: unknown): AppSettings => {
+  const settings = clampFields(mergeFields(DEFAULT_SETTINGS, raw), SETTING_RANGES);
+  const fields: Record<keyof AppSettings, unknown> = settings;
+
+  for (const [key, choices] of Object.entries(SETTING_CHOICES) as [keyof AppSettings, readonly unknown[]][]) {
+    if (!choices.includes(settings[key])) fields[key] = DEFAULT_SETTINGS[key];
+  }
+  settings.tracks = sanitizeTracks(settings.tracks);
+  settings.noteStyles = mergeFields(DEFAULT_SETTINGS.noteStyles, settings.noteStyles);
+  settings.background = clampFields(mergeFields(DEFAULT_SETTINGS.background, settings.background), BACKGROUND_RANGES);
+  if (!BACKGROUND_GRADIENTS.includes(settings.background.gradient)) settings.background.gradient = DEFAULT_SETTINGS.background.gradient;
+  settings.reactions = clampFields(mergeFields(DEFAULT_SETTINGS.reactions, settings.reactions), REACTION_RANGES);
+  settings.customTheme = sanitizeTheme(settings.customTheme);
+  if (!isAspectRatio(settings.aspectRatio)) settings.aspectRatio = DEFAULT_SETTINGS.aspectRatio;
+  settings.layout = sanitizeLayout(settings.layout);
+  if (!isTextFont(settings.textFont)) settings.textFont = DEFAULT_SETTINGS.textFont;
+  settings.captions = sanitizeCaptions(settings.captions);
+  settings.lyrics = sanitizeLyrics(settings.lyrics);
+  return settings;
+};
+
+const sanitizeNotes = (raw: unknown): NoteEvent[] | null => {
+  if (!Array.isArray(raw)) return null;
+  return raw.filter((n): n is NoteEvent =>
+    isPlainObject(n) &&
+    typeof n.note === 'number' &&
+    typeof n.velocity === 'number' &&
+    typeof n.startTime === 'number' &&
+    typeof n.duration === 'number'
+  );
+};
+
+// --- FILE FORMAT ---
+
+const fileEntry = async (
+  files: Zippable,
+  path: string,
+  file: ProjectFile,
+  compress: boolean
+): Promise<ManifestFile> => {
+  const bytes = new Uint8Array(await file.data.arrayBuffer());
+  // Audio and images are already compressed; storing them as-is keeps saving fast
+  files[path] = [bytes, { level: compress ? 6 : 0 }];
+  return { path, name: file.name, type: file.type };
+};
+
+const extensionOf = (name: string) => {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot).toLowerCase() : '';
+};
+
+export const serializeProject = async (project: Project, embedAudio: boolean = true): Promise<Blob> => {
+  const files: Zippable = {};
+  const manifest: ProjectManifest = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    savedAt: new Date().toISOString(),
+    settings: project.settings,
+    generatedTheme: project.generatedTheme,
+    notes: project.midi ? null : project.notes,
+    files: {},
+    audioReference: project.audioReference
+  };
+
+  if (project.midi) manifest.files.midi = await fileEntry(files, 'midi.mid', project.midi, true);
+  if (project.cover) manifest.files.cover = await fileEntry(files, `cover${extensionOf(project.cover.name)}`, project.cover, false);
+  if (project.audio) {
+    if (embedAudio) {
+      manifest.files.audio = await fileEntry(files, `audio${extensionOf(project.audio.name)}`, project.audio, false);
+      manifest.audioReference = null;
+    } else {
+      manifest.audioReference = { name: project.audio.name, size: project.audio.data.size };
+    }
+  }
+
+  files[MANIFEST_PATH] = strToU8(JSON.stringify(manifest, null, 2));
+  return new Blob([zipSync(files)], { type: 'application/zip' });
+};
+
+export const parseProject = async (file: Blob): Promise<Project> => {
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(new Uint8Array(await file.arrayBuffer()));
+  } catch (e) {
+    throw new Error('Project file is not a valid zip archive');
+  }
+
+  const manifestBytes = entries[MANIFEST_PATH];
+  if (!manifestBytes) throw new Error('Project file has no manifest.json');
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(strFromU8(manifestBytes));
+  } catch (e) {
+    throw new Error('Project manifest is not valid JSON');
+  }
+  const manifest = migrateManifest(raw);
+
+  const readFile = (entry: unknown): ProjectFile | null => {
+    if (!isPlainObject(entry) || typeof entry.path !== 'string') return null;
+    const bytes = entries[entry.path];
+    if (!bytes) throw new Error(`Project file is missing ${entry.path}`);
+    const type = typeof entry.type === 'string' ? entry.type : '';
+    return { name: typeof entry.name === 'string' ? entry.name : entry.path, type, data: new Blob([bytes], { type }) };
+  };
+
+  const files = isPlainObject(manifest.files) ? manifest.files : {};
+  const audioReference = isPlainObject(manifest.audioReference) && typeof manifest.audioReference.name === 'string'
+    ? { name: manifest.audioReference.name, size: Number(manifest.audioReference.size) || 0 }
+    : null;
+
+  return {
+    settings: sanitizeSettings(manifest.settings),
+    generatedTheme: sanitizeTheme(manifest.generatedTheme),
+    midi: readFile(files.midi),
+    notes: sanitizeNotes(manifest.notes),
+    cover: readFile(files.cover),
+    audio: readFile(files.audio),
+    audioReference
+  };
+};
+
+// --- AUTOSAVE ---
+
+// The session is kept in IndexedDB as a structured clone (Blobs included), so nothing is zipped on every edit
+const DB_NAME = 'tintinnabuli-visualizer';
+const STORE_NAME = 'projects';
+const AUTOSAVE_KEY = 'autosave';
+
+const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, 1);
+  request.onupgradeneeded = () => request.result.createObjectStore(STORE_NAME);
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const saveAutosave = async (project: Project) => {
+  await withStore('readwrite', store => store.put({ version: PROJECT_VERSION, project }, AUTOSAVE_KEY));
+};
+
+// Autosaves go through the same checks as project files, since they may predate the current settings
+export const loadAutosave = async (): Promise<Project | null> => {
+  const stored = await withStore<unknown>('readonly', store => store.get(AUTOSAVE_KEY));
+  if (!isPlainObject(stored) || !isPlainObject(stored.project) || typeof stored.version !== 'number' || stored.version > PROJECT_VERSION) return null;
+
+  const p = stored.project;
+  const asFile = (f: unknown): ProjectFile | null =>
+    isPlainObject(f) && f.data instanceof Blob ? { name: String(f.name ?? ''), type: String(f.type ?? ''), data: f.data } : null;
+
+  return {
+    settings: sanitizeSettings(p.settings),
+    generatedTheme: sanitizeTheme(p.generatedTheme),
+    midi: asFile(p.midi),
+    notes: sanitizeNotes(p.notes),
+    cover: asFile(p.cover),
+    audio: asFile(p.audio),
+    audioReference: null
+  };
+};
@@ -0,0 +1,133 @@
+import { CoverReactions, MidiDocument, NoteEvent } from './types';
+import { createIntervalIndex, IntervalIndex } from './noteIndex';
+import { getTintinnabuliAnalysis } from './tintinnabuli';
+
+// Shared by the live cover and the export so both move identically for a given time
+
+const ENVELOPE_RATE = 100; // level samples per second
+const ENVELOPE_WINDOW = 0.05; // seconds of audio per RMS sample
+const PULSE_RELEASE = 0.3; // seconds for the level to fall back by 1/e after a peak
+const MAX_PULSE = 0.06; // extra scale at full level and intensity
+
+const GLOW_SECONDS = 0.8;
+
+const KEN_BURNS_PERIOD = 40; // seconds for a full zoom in and out
+// The base zoom always exceeds twice the pan, so the cover never shows its edges
+const KEN_BURNS_ZOOM = 0.07;
+const KEN_BURNS_BREATH = 0.05;
+const KEN_BURNS_PAN = 0.03;
+
+// Peak-held RMS level, normalised to the loudest moment of the buffer
+const envelopeCache = new WeakMap<AudioBuffer, Float32Array>();
+
+const getLevelEnvelope = (buffer: AudioBuffer) => {
+  let envelope = envelopeCache.get(buffer);
+  if (envelope) return envelope;
+
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  const frames = Math.ceil(buffer.duration * ENVELOPE_RATE);
+  const half = Math.round(buffer.sampleRate * ENVELOPE_WINDOW / 2);
+  envelope = new Float32Array(frames);
+
+  // The window only moves forward, so a running sum reads each sample once on the way in and once on the way out
+  const energy = (s: number) => {
+    let e = 0;
+    for (const data of channels) e += data[s] * data[s];
+    return e;
+  };
+  let loudest = 0;
+  let sum = 0;
+  let from = 0;
+  let to = 0;
+  for (let i = 0; i < frames; i++) {
+    const centre = Math.round(i / ENVELOPE_RATE * buffer.sampleRate);
+    const nextFrom = Math.max(0, centre - half);
+    const nextTo = Math.min(buffer.length, centre + half);
+    for (; to < nextTo; to++) sum += energy(to);
+    for (; from < nextFrom; from++) sum -= energy(from);
+    const count = (to - from) * channels.length;
+    envelope[i] = count > 0 ? Math.sqrt(Math.max(0, sum) / count) : 0;
+    loudest = Math.max(loudest, envelope[i]);
+  }
+
+  const decay = Math.exp(-1 / (ENVELOPE_RATE * PULSE_RELEASE));
+  let held = 0;
+  for (let i = 0; i < frames; i++) {
+    held = Math.max(loudest > 0 ? envelope[i] / loudest : 0, held * decay);
+    envelope[i] = held;
+  }
+
+  envelopeCache.set(buffer, envelope);
+  return envelope;
+};
+
+const getLevel = (buffer: AudioBuffer, time: number) => {
+  const envelope = getLevelEnvelope(buffer);
+  const position = time * ENVELOPE_RATE;
+  const i = Math.floor(position);
+  if (i < 0 || i >= envelope.length) return 0;
+  const next = envelope[Math.min(i + 1, envelope.length - 1)];
+  return envelope[i] + (next - envelope[i]) * (position - i);
+};
+
+// M-voice notes, each glowing from its note-on for GLOW_SECONDS
+const melodyCache = new WeakMap<MidiDocument, IntervalIndex<NoteEvent>>();
+
+const getMelodyIndex = (midi: MidiDocument) => {
+  let index = melodyCache.get(midi);
+  if (!index) {
+    const { roles } = getTintinnabuliAnalysis(midi);
+    const melody = midi.notes.filter(n => roles.get(n)?.role === 'M');
+    index = createIntervalIndex(melody, n => n.startTime, n => n.startTime + GLOW_SECONDS);
+    melodyCache.set(midi, index);
+  }
+  return index;
+};
+
+const getMelodyGlow = (midi: MidiDocument, midiTime: number) => {
+  let glow = 0;
+  for (const n of getMelodyIndex(midi).query(midiTime, midiTime)) {
+    const fade = 1 - (midiTime - n.startTime) / GLOW_SECONDS;
+    glow = Math.max(glow, fade * fade * (0.4 + 0.6 * n.velocity / 127));
+  }
+  return glow;
+};
+
+export interface CoverMotion {
+  scale: number;
+  x: number; // pan, as a fraction of the cover's width
+  y: number; // pan, as a fraction of the cover's height
+  glow: number; // 0 to 1
+}
+
+// `time` is audio time; the melody is looked up in MIDI time using the sync offset
+export const getCoverMotion = (
+  reactions: CoverReactions,
+  audioBuffer: AudioBuffer | null,
+  midi: MidiDocument,
+  time: number,
+  offsetMs: number
+): CoverMotion => {
+  const pulse = reactions.pulse > 0 && audioBuffer ? getLevel(audioBuffer, time) * MAX_PULSE * reactions.pulse : 0;
+  const phase = time / KEN_BURNS_PERIOD * Math.PI * 2;
+  const kenBurns = reactions.kenBurns;
+
+  return {
+    scale: 1 + pulse + kenBurns * (KEN_BURNS_ZOOM + KEN_BURNS_BREATH * (0.5 - 0.5 * Math.cos(phase))),
+    x: kenBurns * KEN_BURNS_PAN * Math.sin(phase * 0.7),
+    y: kenBurns * KEN_BURNS_PAN * 0.7 * Math.cos(phase * 0.5),
+    glow: reactions.glow > 0 ? getMelodyGlow(midi, time + offsetMs / 1000) * reactions.glow : 0
+  };
+};
+
+const smoothstep = (x: number) => {
+  const t = Math.min(1, Math.max(0, x));
+  return t * t * (3 - 2 * t);
+};
+
+// Fades in over the first `titleFade` seconds and out over the last ones
+export const getTitleOpacity = (reactions: CoverReactions, time: number, duration: number) => {
+  const fade = reactions.titleFade;
+  if (fade <= 0 || duration <= 0) return 1;
+  return Math.min(smoothstep(time / fade), smoothstep((duration - time) / fade));
+};
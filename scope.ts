@@ -0,0 +1,243 @@
+import { AppSettings, NoteEvent, ScopeMode, ScopeSyncOptions, StereoAnalysers, StereoSamples } from './types';
+import { midiToFrequency } from './utils';
+
+// --- CAPTURE ---
+
+// `size` samples of one channel centred on `time`, read straight from the decoded buffer.
+// The window start keeps its fractional sample position and samples are linearly interpolated,
+// so the same time always yields the same waveform, whether playing, paused or rendering offline.
+const readChannelAt = (data: Float32Array, sampleRate: number, time: number, size: number) => {
+  const out = new Float32Array(size);
+  const start = time * sampleRate - size / 2;
+  const base = Math.floor(start);
+  const frac = start - base;
+
+  for (let i = 0; i < size; i++) {
+    const idx = base + i;
+    const a = idx >= 0 && idx < data.length ? data[idx] : 0;
+    const b = idx + 1 >= 0 && idx + 1 < data.length ? data[idx + 1] : 0;
+    out[i] = a + (b - a) * frac;
+  }
+  return out;
+};
+
+// Mono files feed the same channel to both sides
+export const getWaveformAt = (buffer: AudioBuffer, time: number, size: number = 2048): StereoSamples => {
+  const left = readChannelAt(buffer.getChannelData(0), buffer.sampleRate, time, size);
+  const right = buffer.numberOfChannels > 1
+    ? readChannelAt(buffer.getChannelData(1), buffer.sampleRate, time, size)
+    : left;
+  return { left, right };
+};
+
+const mixDown = ({ left, right }: StereoSamples) => {
+  const mid = new Float32Array(left.length);
+  for (let i = 0; i < left.length; i++) mid[i] = (left[i] + right[i]) / 2;
+  return mid;
+};
+
+// --- STABILISATION ---
+
+// Period in seconds of the lowest note sounding at `time`, or null during rests
+export const getSoundingPeriod = (notes: NoteEvent[], time: number): number | null => {
+  let lowest = Infinity;
+  for (const n of notes) {
+    if (n.startTime > time) break;
+    if (time <= n.startTime + n.duration && n.note < lowest) lowest = n.note;
+  }
+  return lowest === Infinity ? null : 1 / midiToFrequency(lowest);
+};
+
+// Fractional index of the first upward crossing of `level` in [from, to). The trigger only arms
+// once the signal has been below level - hysteresis, so noise around the level can't retrigger it.
+export const findRisingEdge = (
+  samples: Float32Array,
+  level: number,
+  hysteresis: number,
+  from: number,
+  to: number
+): number | null => {
+  let armed = false;
+  const end = Math.min(to, samples.length);
+  for (let i = Math.max(1, from); i < end; i++) {
+    const prev = samples[i - 1];
+    if (prev < level - hysteresis) armed = true;
+    if (armed && prev < level && samples[i] >= level) {
+      return i - 1 + (level - prev) / (samples[i] - prev);
+    }
+  }
+  return null;
+};
+
+// Number of samples the stabilizer needs to see: the window plus room to search for a trigger
+export const getScopeCaptureSize = (sync: ScopeSyncOptions, sampleRate: number) => {
+  const windowSamples = Math.round((sync.windowMs / 1000) * sampleRate);
+  if (sync.mode === 'free') return windowSamples;
+  if (sync.mode === 'pitch' && sync.period) return windowSamples + Math.ceil(sync.period * sampleRate * 2);
+  return windowSamples * 2;
+};
+
+// Where to cut a steady `windowMs` view out of a longer capture so the trace doesn't drift between frames
+export const getStableWindow = (samples: Float32Array, sampleRate: number, sync: ScopeSyncOptions) => {
+  let length = Math.max(2, Math.min(samples.length, Math.round((sync.windowMs / 1000) * sampleRate)));
+  let searchEnd = samples.length - length;
+
+  if (sync.mode === 'pitch' && sync.period) {
+    // Show whole cycles and search a single one, so the window keeps the same phase of the note
+    const periodSamples = sync.period * sampleRate;
+    let cycles = Math.max(1, Math.round(length / periodSamples));
+    while (cycles > 1 && (cycles + 1) * periodSamples > samples.length) cycles--;
+    length = Math.max(2, Math.min(samples.length, Math.round(cycles * periodSamples)));
+    searchEnd = Math.min(samples.length - length, Math.ceil(periodSamples) + 1);
+  }
+
+  const edge = sync.mode !== 'free' && searchEnd > 1
+    ? findRisingEdge(samples, sync.triggerLevel, sync.triggerHysteresis, 0, searchEnd)
+    : null;
+
+  return { start: edge ?? Math.max(0, searchEnd) / 2, length };
+};
+
+const resampleWindow = (samples: Float32Array, start: number, length: number) => {
+  const out = new Float32Array(length);
+  const base = Math.floor(start);
+  const frac = start - base;
+  for (let i = 0; i < length; i++) {
+    const a = samples[base + i] ?? 0;
+    const b = samples[base + i + 1] ?? a;
+    out[i] = a + (b - a) * frac;
+  }
+  return out;
+};
+
+// Both channels are cut at the trigger found on the mix, so L and R stay in phase with each other.
+// X/Y figures have no time axis, so they always use a free-running window.
+export const stabilizeStereo = (
+  capture: StereoSamples,
+  sampleRate: number,
+  sync: ScopeSyncOptions,
+  mode: ScopeMode
+): StereoSamples => {
+  const effectiveSync = mode === 'xy' ? { ...sync, mode: 'free' as const } : sync;
+  const { start, length } = getStableWindow(mixDown(capture), sampleRate, effectiveSync);
+  const left = resampleWindow(capture.left, start, length);
+  const right = capture.right === capture.left ? left : resampleWindow(capture.right, start, length);
+  return { left, right };
+};
+
+// Stabilized view of the decoded audio around `time`
+export const getBufferScope = (buffer: AudioBuffer, time: number, sync: ScopeSyncOptions, mode: ScopeMode) => {
+  const capture = getWaveformAt(buffer, time, getScopeCaptureSize(sync, buffer.sampleRate));
+  return stabilizeStereo(capture, buffer.sampleRate, sync, mode);
+};
+
+// Stabilized view of whatever the per-channel analysers currently hold
+export const getLiveScope = (analysers: StereoAnalysers, sync: ScopeSyncOptions, mode: ScopeMode) => {
+  const left = new Float32Array(analysers.left.fftSize);
+  const right = new Float32Array(analysers.right.fftSize);
+  analysers.left.getFloatTimeDomainData(left);
+  analysers.right.getFloatTimeDomainData(right);
+  return stabilizeStereo({ left, right }, analysers.left.context.sampleRate, sync, mode);
+};
+
+export const getScopeSync = (settings: AppSettings, notes: NoteEvent[], midiTime: number): ScopeSyncOptions => ({
+  mode: settings.scopeSync,
+  windowMs: settings.scopeWindowMs,
+  triggerLevel: settings.scopeTriggerLevel,
+  triggerHysteresis: settings.scopeTriggerHysteresis,
+  period: settings.scopeSync === 'pitch' ? getSoundingPeriod(notes, midiTime) : null
+});
+
+// --- DRAWING ---
+
+const traceWaveform = (
+  ctx: CanvasRenderingContext2D,
+  samples: Float32Array,
+  top: number,
+  width: number,
+  height: number
+) => {
+  ctx.beginPath();
+  const sliceWidth = width * 1.0 / Math.max(1, samples.length - 1);
+  let x = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const y = top + (1 + samples[i]) * height / 2;
+    if (i === 0) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+    x += sliceWidth;
+  }
+  ctx.stroke();
+};
+
+const traceLissajous = (
+  ctx: CanvasRenderingContext2D,
+  { left, right }: StereoSamples,
+  width: number,
+  height: number
+) => {
+  const cx = width / 2;
+  const cy = height / 2;
+  const radius = Math.min(width, height) * 0.45;
+
+  ctx.beginPath();
+  for (let i = 0; i < left.length; i++) {
+    const x = cx + left[i] * radius;
+    const y = cy - right[i] * radius;
+    if (i === 0) ctx.moveTo(x, y);
+    else ctx.lineTo(x, y);
+  }
+  ctx.stroke();
+};
+
+// `samples` is null while nothing is playing, which draws the resting flat line(s)
+export const drawOscilloscope = (
+  ctx: CanvasRenderingContext2D,
+  samples: StereoSamples | null,
+  mode: ScopeMode,
+  color: string,
+  backgroundColor: string,
+  width: number,
+  height: number,
+  lineWidth: number = 2,
+  backgroundOpacity: number = 1
+) => {
+  ctx.save();
+  ctx.globalAlpha = backgroundOpacity;
+  ctx.fillStyle = backgroundColor;
+  ctx.fillRect(0, 0, width, height);
+  ctx.globalAlpha = 1;
+
+  ctx.strokeStyle = color;
+  ctx.lineWidth = lineWidth;
+  ctx.lineJoin = 'round';
+  ctx.lineCap = 'round';
+
+  const silence = new Float32Array(2);
+  const { left, right } = samples ?? { left: silence, right: silence };
+
+  if (mode === 'xy') {
+    if (samples) traceLissajous(ctx, samples, width, height);
+    else {
+      ctx.beginPath();
+      ctx.arc(width / 2, height / 2, lineWidth, 0, Math.PI * 2);
+      ctx.fillStyle = color;
+      ctx.fill();
+    }
+  } else if (mode === 'stacked') {
+    traceWaveform(ctx, left, 0, width, height / 2);
+    traceWaveform(ctx, right, height / 2, width, height / 2);
+  } else if (mode === 'midside') {
+    const mid = new Float32Array(left.length);
+    const side = new Float32Array(left.length);
+    for (let i = 0; i < left.length; i++) {
+      mid[i] = (left[i] + right[i]) / 2;
+      side[i] = (left[i] - right[i]) / 2;
+    }
+    traceWaveform(ctx, mid, 0, width, height / 2);
+    traceWaveform(ctx, side, height / 2, width, height / 2);
+  } else {
+    traceWaveform(ctx, left === right ? left : mixDown({ left, right }), 0, width, height);
+  }
+
+  ctx.restore();
+};
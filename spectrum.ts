@@ -0,0 +1,236 @@
+import { SpectrumStyle } from './types';
+import { hexToRgb, midiToFrequency, PIANO_MIN_NOTE, PIANO_MAX_NOTE } from './utils';
+
+const KEY_COUNT = PIANO_MAX_NOTE - PIANO_MIN_NOTE + 1;
+
+// Same display range as an AnalyserNode's default min/maxDecibels
+const MIN_DB = -100;
+const MAX_DB = -30;
+
+export const SPECTROGRAM_COLUMNS_PER_SEC = 30;
+export const SPECTROGRAM_WINDOW = 10; // seconds of history, like the piano roll's time window
+const SPECTROGRAM_FFT_SIZE = 4096;    // finer bins so the bass keys get their own rows
+
+// --- ANALYSIS ---
+
+// In-place iterative radix-2 FFT; `re.length` must be a power of two
+export const fft = (re: Float32Array, im: Float32Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let len = 2; len <= n; len <<= 1) {
+    const half = len >> 1;
+    const angle = -2 * Math.PI / len;
+    const wr = Math.cos(angle);
+    const wi = Math.sin(angle);
+    for (let i = 0; i < n; i += len) {
+      let cr = 1, ci = 0;
+      for (let k = 0; k < half; k++) {
+        const a = i + k, b = a + half;
+        const br = re[b] * cr - im[b] * ci;
+        const bi = re[b] * ci + im[b] * cr;
+        re[b] = re[a] - br; im[b] = im[a] - bi;
+        re[a] += br; im[a] += bi;
+        const next = cr * wr - ci * wi;
+        ci = cr * wi + ci * wr;
+        cr = next;
+      }
+    }
+  }
+};
+
+// Magnitudes in dB of a Blackman-windowed frame centred on `time`, scaled like
+// AnalyserNode.getFloatFrequencyData so live and offline views look the same
+export const getSpectrumAt = (buffer: AudioBuffer, time: number, size: number = 2048): Float32Array => {
+  const re = new Float32Array(size);
+  const im = new Float32Array(size);
+  const start = Math.round(time * buffer.sampleRate) - size / 2;
+
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < size; i++) {
+      const idx = start + i;
+      if (idx >= 0 && idx < data.length) re[i] += data[idx] / buffer.numberOfChannels;
+    }
+  }
+  for (let i = 0; i < size; i++) {
+    const phase = (2 * Math.PI * i) / size;
+    re[i] *= 0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase);
+  }
+
+  fft(re, im);
+
+  const db = new Float32Array(size / 2);
+  for (let i = 0; i < db.length; i++) {
+    const mag = Math.hypot(re[i], im[i]) / size;
+    db[i] = Math.max(MIN_DB, 20 * Math.log10(mag));
+  }
+  return db;
+};
+
+// Folds FFT bins into one band per piano key (21-108), so the frequency axis lines up with the
+// piano roll lanes. Bass keys narrower than a bin are interpolated at their centre frequency.
+export const binsToKeyBands = (db: Float32Array, sampleRate: number): Float32Array => {
+  const fftSize = db.length * 2;
+  const binOf = (f: number) => (f * fftSize) / sampleRate;
+  const bands = new Float32Array(KEY_COUNT);
+  // Silent bins of the live analyser read -Infinity, which would turn interpolated bands into NaN
+  const level = (b: number) => Math.max(MIN_DB, db[b]);
+
+  for (let k = 0; k < KEY_COUNT; k++) {
+    const note = PIANO_MIN_NOTE + k;
+    const lo = Math.ceil(binOf(midiToFrequency(note - 0.5)));
+    const hi = Math.floor(binOf(midiToFrequency(note + 0.5)));
+
+    if (hi >= lo) {
+      let max = MIN_DB;
+      for (let b = lo; b <= Math.min(hi, db.length - 1); b++) max = Math.max(max, level(b));
+      bands[k] = max;
+    } else {
+      const pos = binOf(midiToFrequency(note));
+      const i = Math.min(db.length - 2, Math.floor(pos));
+      bands[k] = level(i) + (level(i + 1) - level(i)) * (pos - i);
+    }
+  }
+  return bands;
+};
+
+export const getKeyBandsAt = (buffer: AudioBuffer, time: number, size: number = 2048) =>
+  binsToKeyBands(getSpectrumAt(buffer, time, size), buffer.sampleRate);
+
+export const getLiveKeyBands = (analyser: AnalyserNode) => {
+  const db = new Float32Array(analyser.frequencyBinCount);
+  analyser.getFloatFrequencyData(db);
+  return binsToKeyBands(db, analyser.context.sampleRate);
+};
+
+// Spectrogram columns of a decoded file never change, so each one is computed once
+const columnCache = new WeakMap<AudioBuffer, Map<number, Float32Array>>();
+
+export const getBufferSpectrogramColumn = (buffer: AudioBuffer, index: number) => {
+  let columns = columnCache.get(buffer);
+  if (!columns) {
+    columns = new Map();
+    columnCache.set(buffer, columns);
+  }
+  let column = columns.get(index);
+  if (!column) {
+    column = getKeyBandsAt(buffer, index / SPECTROGRAM_COLUMNS_PER_SEC, SPECTROGRAM_FFT_SIZE);
+    columns.set(index, column);
+  }
+  return column;
+};
+
+// --- DRAWING ---
+
+const toLevel = (db: number) => Math.min(1, Math.max(0, (db - MIN_DB) / (MAX_DB - MIN_DB)));
+
+// `bands` is null while nothing is playing, which leaves the panel empty
+export const drawSpectrum = (
+  ctx: CanvasRenderingContext2D,
+  bands: Float32Array | null,
+  style: SpectrumStyle,
+  color: string,
+  backgroundColor: string,
+  width: number,
+  height: number,
+  lineWidth: number = 2,
+  backgroundOpacity: number = 1
+) => {
+  ctx.save();
+  ctx.globalAlpha = backgroundOpacity;
+  ctx.fillStyle = backgroundColor;
+  ctx.fillRect(0, 0, width, height);
+  ctx.globalAlpha = 1;
+
+  if (bands) {
+    const laneW = width / KEY_COUNT;
+    ctx.fillStyle = color;
+    ctx.strokeStyle = color;
+    ctx.lineWidth = lineWidth;
+    ctx.lineJoin = 'round';
+    ctx.lineCap = 'round';
+
+    if (style === 'bars') {
+      for (let k = 0; k < KEY_COUNT; k++) {
+        const h = toLevel(bands[k]) * height;
+        ctx.fillRect(k * laneW + laneW * 0.15, height - h, laneW * 0.7, h);
+      }
+    } else {
+      ctx.beginPath();
+      for (let k = 0; k < KEY_COUNT; k++) {
+        const x = (k + 0.5) * laneW;
+        const y = height - toLevel(bands[k]) * height;
+        if (k === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      }
+      ctx.stroke();
+    }
+  }
+
+  ctx.restore();
+};
+
+let scratchCanvas: HTMLCanvasElement | null = null;
+
+// Scrolling spectrogram: now is the right edge, one row per piano key from A0 at the bottom.
+// `getColumn(index)` returns the bands for time index / SPECTROGRAM_COLUMNS_PER_SEC, if known.
+export const drawSpectrogram = (
+  ctx: CanvasRenderingContext2D,
+  getColumn: (index: number) => Float32Array | undefined,
+  currentTime: number,
+  color: string,
+  backgroundColor: string,
+  width: number,
+  height: number,
+  backgroundOpacity: number = 1
+) => {
+  const cols = SPECTROGRAM_WINDOW * SPECTROGRAM_COLUMNS_PER_SEC;
+  const last = Math.floor(currentTime * SPECTROGRAM_COLUMNS_PER_SEC);
+  const first = last - cols + 1;
+
+  const fg = hexToRgb(color) ?? { r: 0, g: 0, b: 0 };
+
+  scratchCanvas ??= document.createElement('canvas');
+  scratchCanvas.width = cols;
+  scratchCanvas.height = KEY_COUNT;
+  const scratch = scratchCanvas.getContext('2d');
+  if (!scratch) return;
+
+  const image = scratch.createImageData(cols, KEY_COUNT);
+  for (let c = 0; c < cols; c++) {
+    const column = first + c >= 0 ? getColumn(first + c) : undefined;
+    for (let k = 0; k < KEY_COUNT; k++) {
+      // Squared level keeps quiet partials from washing the panel out
+      const level = column ? toLevel(column[k]) ** 2 : 0;
+      // The scope colour at the level's opacity, over the background filled below
+      const p = ((KEY_COUNT - 1 - k) * cols + c) * 4;
+      image.data[p] = fg.r;
+      image.data[p + 1] = fg.g;
+      image.data[p + 2] = fg.b;
+      image.data[p + 3] = level * 255;
+    }
+  }
+  scratch.putImageData(image, 0, 0);
+
+  // Shift by the fraction of a column elapsed so scrolling is smooth rather than stepped
+  const colW = width / cols;
+  const frac = currentTime * SPECTROGRAM_COLUMNS_PER_SEC - last;
+
+  ctx.save();
+  ctx.globalAlpha = backgroundOpacity;
+  ctx.fillStyle = backgroundColor;
+  ctx.fillRect(0, 0, width, height);
+  ctx.globalAlpha = 1;
+  ctx.imageSmoothingEnabled = true;
+  ctx.drawImage(scratchCanvas, -frac * colW, 0, width, height);
+  ctx.restore();
+};
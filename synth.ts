@@ -0,0 +1,117 @@
+import { NoteEvent, SynthTimbre } from './types';
+import { midiToFrequency } from './utils';
+
+interface SynthPartial {
+  ratio: number; // multiple of the fundamental
+  gain: number;
+  decay: number; // seconds to fall to 1/e while held; Infinity sustains
+}
+
+interface TimbreDef {
+  partials: SynthPartial[];
+  attack: number;
+  release: number; // seconds to fade after note-off
+}
+
+// Bell: inharmonic partials that ring past the note-off, like Pärt's tintinnabula.
+// Piano: harmonic partials with fast-decaying upper harmonics.
+// Organ: steady drawbars (8', 4', 2 2/3', 2') that stop with the key.
+const TIMBRES: Record<SynthTimbre, TimbreDef> = {
+  bell: {
+    partials: [
+      { ratio: 1, gain: 1, decay: 2.5 },
+      { ratio: 2.76, gain: 0.35, decay: 1.2 },
+      { ratio: 5.4, gain: 0.15, decay: 0.6 },
+      { ratio: 8.93, gain: 0.06, decay: 0.3 }
+    ],
+    attack: 0.004,
+    release: 1.5
+  },
+  piano: {
+    partials: [
+      { ratio: 1, gain: 1, decay: 1.8 },
+      { ratio: 2, gain: 0.4, decay: 0.9 },
+      { ratio: 3, gain: 0.18, decay: 0.5 },
+      { ratio: 4, gain: 0.08, decay: 0.3 }
+    ],
+    attack: 0.006,
+    release: 0.35
+  },
+  organ: {
+    partials: [
+      { ratio: 1, gain: 1, decay: Infinity },
+      { ratio: 2, gain: 0.5, decay: Infinity },
+      { ratio: 3, gain: 0.25, decay: Infinity },
+      { ratio: 4, gain: 0.15, decay: Infinity }
+    ],
+    attack: 0.03,
+    release: 0.08
+  }
+};
+
+const SAMPLE_RATE = 44100;
+const VOICE_GAIN = 0.12;
+const STEREO_SPREAD = 0.4; // low keys lean left, high keys right, so the X/Y scope has some width
+
+const scheduleNote = (ctx: BaseAudioContext, out: AudioNode, n: NoteEvent, timbre: TimbreDef, shift: number) => {
+  const start = n.startTime - shift;
+  const end = start + Math.max(0.05, n.duration);
+  const stop = end + timbre.release;
+  if (stop <= 0) return;
+
+  const pan = ctx.createStereoPanner();
+  pan.pan.value = Math.max(-1, Math.min(1, ((n.note - 64) / 44) * STEREO_SPREAD));
+  pan.connect(out);
+
+  const f0 = midiToFrequency(n.note);
+  const level = VOICE_GAIN * (0.2 + 0.8 * n.velocity / 127);
+
+  for (const p of timbre.partials) {
+    const freq = f0 * p.ratio;
+    if (freq >= ctx.sampleRate / 2) continue;
+
+    const osc = ctx.createOscillator();
+    osc.frequency.value = freq;
+
+    // Attack, exponential decay while held, then release from wherever the decay got to
+    const peak = level * p.gain;
+    const held = Number.isFinite(p.decay) ? peak * Math.exp(-Math.max(0, end - start - timbre.attack) / p.decay) : peak;
+    const env = ctx.createGain();
+    env.gain.setValueAtTime(0, Math.max(0, start));
+    env.gain.linearRampToValueAtTime(peak, Math.max(0, start + timbre.attack));
+    if (Number.isFinite(p.decay)) env.gain.setTargetAtTime(0, Math.max(0, start + timbre.attack), p.decay);
+    env.gain.setValueAtTime(held, Math.max(0, end));
+    env.gain.setTargetAtTime(0, Math.max(0, end), timbre.release / 4);
+
+    osc.connect(env);
+    env.connect(pan);
+    osc.start(Math.max(0, start));
+    osc.stop(stop);
+  }
+};
+
+// Renders the notes to a stereo AudioBuffer that stands in for a recording. `offsetMs` follows the
+// sync offset convention (MIDI time = audio time + offset), so the result lines up with the piano roll.
+export const renderMidiAudio = async (
+  notes: NoteEvent[],
+  timbre: SynthTimbre,
+  offsetMs: number = 0
+): Promise<AudioBuffer | null> => {
+  const shift = offsetMs / 1000;
+  const def = TIMBRES[timbre];
+  const lastEnd = notes.reduce((max, n) => Math.max(max, n.startTime + n.duration - shift), 0);
+  if (notes.length === 0 || lastEnd <= 0) return null;
+
+  const length = Math.ceil((lastEnd + def.release + 0.5) * SAMPLE_RATE);
+  const ctx = new OfflineAudioContext(2, length, SAMPLE_RATE);
+
+  // Gentle limiting so dense chords don't clip
+  const master = ctx.createDynamicsCompressor();
+  master.threshold.value = -12;
+  master.ratio.value = 4;
+  master.connect(ctx.destination);
+
+  for (const n of notes) scheduleNote(ctx, master, n, def, shift);
+
+  return ctx.startRendering();
+};
@@ -0,0 +1,161 @@
+import { AppSettings, TextFont, TimedCaption } from './types';
+
+// Serif faces bundled from @fontsource, imported by index.tsx
+export const TEXT_FONTS: Record<TextFont, { label: string; family: string }> = {
+  cormorant: { label: 'Cormorant', family: '"Cormorant Garamond", serif' },
+  'eb-garamond': { label: 'EB Garamond', family: '"EB Garamond", serif' },
+  playfair: { label: 'Playfair', family: '"Playfair Display", serif' },
+  baskerville: { label: 'Baskerville', family: '"Libre Baskerville", serif' }
+};
+
+export const isTextFont = (v: unknown): v is TextFont => typeof v === 'string' && v in TEXT_FONTS;
+
+// Resolves once the regular and italic faces can be measured, so fitting doesn't use a fallback font.
+// Rejects when either face can't be loaded, since the text would then be drawn in the fallback serif.
+export const loadTextFont = async (font: TextFont) => {
+  const { label, family } = TEXT_FONTS[font];
+  let faces: FontFace[][];
+  try {
+    faces = await Promise.all([document.fonts.load(`72px ${family}`), document.fonts.load(`italic 72px ${family}`)]);
+  } catch (e) {
+    faces = [];
+  }
+  if (faces.length === 0 || faces.some(f => f.length === 0)) throw new Error(`The ${label} font could not be loaded`);
+};
+
+export interface TextLine {
+  text: string;
+  scale: number;    // size relative to the block's largest line
+  italic: boolean;
+  tracking: number; // letter spacing in em
+  lit?: number;     // karaoke: characters already sung; the rest is drawn faded
+}
+
+export interface TextBlock {
+  font: TextFont;
+  lines: TextLine[];
+  opacity: number;
+}
+
+const LINE_HEIGHT = 1.4;
+const UNLIT_ALPHA = 0.35;
+
+// Title lines, then subtitle, composer · opus and performer, skipping empty fields
+export const getCreditsBlock = (settings: AppSettings, opacity: number = 1): TextBlock => {
+  const lines: TextLine[] = (settings.title || 'UNTITLED').split('\n')
+    .map(text => ({ text, scale: 1, italic: false, tracking: 0.2 }));
+  const add = (text: string, scale: number, italic: boolean, tracking: number) => {
+    for (const line of text.split('\n')) if (line.trim()) lines.push({ text: line.trim(), scale, italic, tracking });
+  };
+  add(settings.subtitle, 0.5, true, 0.05);
+  add([settings.composer.trim(), settings.opus.trim()].filter(Boolean).join(' · '), 0.36, false, 0.15);
+  add(settings.performer, 0.36, true, 0.05);
+  return { font: settings.textFont, lines, opacity };
+};
+
+// --- CAPTIONS ---
+
+export const CAPTION_SECONDS = 8;
+const CAPTION_FADE = 0.6;
+
+export const sanitizeCaptions = (raw: unknown): TimedCaption[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((c): c is TimedCaption =>
+      typeof c === 'object' && c !== null && typeof c.text === 'string' && typeof c.time === 'number' && Number.isFinite(c.time))
+    .map(c => ({ time: Math.max(0, c.time), text: c.text }))
+    .sort((a, b) => a.time - b.time);
+};
+
+// The caption sounding at `time`, faded in and out at its ends; null between captions
+export const getCaptionBlock = (settings: AppSettings, time: number): TextBlock | null => {
+  const { captions } = settings;
+  let i = -1;
+  for (let j = 0; j < captions.length && captions[j].time <= time; j++) i = j;
+  if (i < 0 || !captions[i].text.trim()) return null;
+
+  const start = captions[i].time;
+  const end = Math.min(start + CAPTION_SECONDS, captions[i + 1]?.time ?? Infinity);
+  if (time >= end) return null;
+
+  const opacity = Math.min(1, (time - start) / CAPTION_FADE, (end - time) / CAPTION_FADE);
+  const lines = captions[i].text.split('\n').map(text => ({ text, scale: 1, italic: true, tracking: 0.05 }));
+  return { font: settings.textFont, lines, opacity };
+};
+
+// --- DRAWING ---
+
+const fontString = (line: TextLine, family: string, size: number) =>
+  `${line.italic ? 'italic ' : ''}${size}px ${family}`;
+
+// Largest size up to `maxSize` whose line fits `maxWidth`, by binary search on the measured width
+export const fitFontSize = (
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  line: TextLine,
+  family: string,
+  maxWidth: number,
+  maxSize: number
+) => {
+  const fits = (size: number) => {
+    ctx.font = fontString(line, family, size);
+    ctx.letterSpacing = `${size * line.tracking}px`;
+    return ctx.measureText(line.text).width <= maxWidth;
+  };
+  if (fits(maxSize)) return maxSize;
+
+  let lo = 1;
+  let hi = maxSize;
+  for (let i = 0; i < 16 && hi - lo > 0.1; i++) {
+    const mid = (lo + hi) / 2;
+    if (fits(mid)) lo = mid;
+    else hi = mid;
+  }
+  return lo;
+};
+
+// Centres the block in a width × height box. Line sizes share one base that fills the height;
+// any line too wide for the box then shrinks on its own.
+export const drawTextBlock = (
+  ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D,
+  block: TextBlock,
+  color: string,
+  width: number,
+  height: number
+) => {
+  if (block.opacity <= 0 || block.lines.length === 0) return;
+  const family = TEXT_FONTS[block.font].family;
+  const base = height / block.lines.reduce((sum, line) => sum + line.scale * LINE_HEIGHT, 0);
+
+  ctx.save();
+  const sizes = block.lines.map(line => fitFontSize(ctx, line, family, width, base * line.scale));
+  const total = sizes.reduce((sum, size) => sum + size * LINE_HEIGHT, 0);
+
+  ctx.globalAlpha *= block.opacity;
+  ctx.fillStyle = color;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  let y = (height - total) / 2;
+  block.lines.forEach((line, i) => {
+    const size = sizes[i];
+    ctx.font = fontString(line, family, size);
+    ctx.letterSpacing = `${size * line.tracking}px`;
+    // Letter spacing also follows the last glyph; shifting by half of it keeps the text centred
+    const centreX = width / 2 + size * line.tracking / 2;
+    const centreY = y + size * LINE_HEIGHT / 2;
+    if (line.lit === undefined || line.lit >= line.text.length) {
+      ctx.fillText(line.text, centreX, centreY);
+    } else {
+      // The sung part is redrawn over a faded full line, from the same left edge
+      const left = centreX - ctx.measureText(line.text).width / 2;
+      const alpha = ctx.globalAlpha;
+      ctx.textAlign = 'left';
+      ctx.globalAlpha = alpha * UNLIT_ALPHA;
+      ctx.fillText(line.text, left, centreY);
+      ctx.globalAlpha = alpha;
+      if (line.lit > 0) ctx.fillText(line.text.slice(0, line.lit), left, centreY);
+      ctx.textAlign = 'center';
+    }
+    y += size * LINE_HEIGHT;
+  });
+  ctx.restore();
+};
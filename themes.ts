@@ -0,0 +1,100 @@
+import { DEFAULT_THEME, NamedTheme, ThemePalette } from './types';
+
+// Theme files are small JSON documents, so one look can be reused across projects
+export const THEME_FORMAT = 'tintinnabuli-theme';
+export const THEME_VERSION = 1;
+export const THEME_EXTENSION = '.json';
+
+// Saved custom themes live in the browser, shared by every project
+const STORAGE_KEY = 'tintinnabuli-visualizer.themes';
+
+export const THEME_PRESETS: NamedTheme[] = [
+  { name: 'Cream & Ink', theme: DEFAULT_THEME },
+  {
+    name: 'Night',
+    theme: { background: '#0f1117', scope: '#e8e4d8', text: '#e8e4d8', tracks: ['#e8e4d8', '#8a93a6', '#c9a96e', '#5c6478'] }
+  },
+  {
+    name: 'Sepia',
+    theme: { background: '#f1e4c8', scope: '#5a3d22', text: '#4a2f18', tracks: ['#4a2f18', '#9a7047', '#6e4b2c', '#c19a6b'] }
+  },
+  {
+    name: 'Paper & Red',
+    theme: { background: '#f7f5f0', scope: '#1a1a1a', text: '#1a1a1a', tracks: ['#1a1a1a', '#b3261e', '#6b6b6b', '#d9776f'] }
+  },
+  {
+    name: 'Slate',
+    theme: { background: '#2b3038', scope: '#a9c4d9', text: '#e6ebf0', tracks: ['#e6ebf0', '#a9c4d9', '#7d8fa3', '#d6b98c'] }
+  },
+  {
+    name: 'Forest',
+    theme: { background: '#17211b', scope: '#cfe3c4', text: '#e4ecd9', tracks: ['#cfe3c4', '#86a878', '#e0c78a', '#5f7d5a'] }
+  },
+  {
+    name: 'Blush',
+    theme: { background: '#fbeee9', scope: '#5e3440', text: '#4d2734', tracks: ['#4d2734', '#c07a86', '#8e5563', '#e0a9a0'] }
+  }
+];
+
+const isPlainObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const isHexColor = (v: unknown): v is string => typeof v === 'string' && /^#[0-9a-f]{6}$/i.test(v);
+
+// Invalid or missing colours fall back to the default theme's
+export const sanitizeTheme = (raw: unknown): ThemePalette => {
+  if (!isPlainObject(raw)) return DEFAULT_THEME;
+  const tracks = Array.isArray(raw.tracks) ? raw.tracks.filter(isHexColor) : [];
+  return {
+    background: isHexColor(raw.background) ? raw.background : DEFAULT_THEME.background,
+    scope: isHexColor(raw.scope) ? raw.scope : DEFAULT_THEME.scope,
+    text: isHexColor(raw.text) ? raw.text : DEFAULT_THEME.text,
+    tracks: tracks.length > 0 ? tracks : DEFAULT_THEME.tracks
+  };
+};
+
+export const serializeTheme = ({ name, theme }: NamedTheme) =>
+  JSON.stringify({ format: THEME_FORMAT, version: THEME_VERSION, name, theme }, null, 2);
+
+export const parseTheme = (text: string): NamedTheme => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new Error('Theme file is not valid JSON');
+  }
+  if (!isPlainObject(raw) || raw.format !== THEME_FORMAT) throw new Error('Not a Tintinnabuli theme file');
+  if (typeof raw.version !== 'number' || raw.version > THEME_VERSION) {
+    throw new Error(`Theme was saved by a newer version (format ${raw.version})`);
+  }
+  if (!isPlainObject(raw.theme)) throw new Error('Theme file has no colours');
+  return {
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : 'Imported theme',
+    theme: sanitizeTheme(raw.theme)
+  };
+};
+
+export const loadSavedThemes = (): NamedTheme[] => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    if (!Array.isArray(raw)) return [];
+    return raw
+      .filter((t): t is Record<string, unknown> => isPlainObject(t) && typeof t.name === 'string')
+      .map(t => ({ name: t.name as string, theme: sanitizeTheme(t.theme) }));
+  } catch (e) {
+    console.warn('Saved themes could not be read', e);
+    return [];
+  }
+};
+
+export const storeSavedThemes = (themes: NamedTheme[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(themes));
+  } catch (e) {
+    console.warn('Saved themes could not be stored', e);
+  }
+};
+
+export const isSameTheme = (a: ThemePalette, b: ThemePalette) =>
+  a.background === b.background && a.scope === b.scope && a.text === b.text &&
+  a.tracks.length === b.tracks.length && a.tracks.every((c, i) => c === b.tracks[i]);
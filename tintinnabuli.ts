@@ -0,0 +1,201 @@
+import { AppSettings, MidiDocument, NoteEvent, PianoRollOptions, TintinnabuliAnalysis, TintinnabuliRole, TonicTriad } from './types';
+import { getTrackKey } from './utils';
+
+const PITCH_NAMES = ['C', 'C#', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'Ab', 'A', 'Bb', 'B'];
+const PITCH_CLASSES: Record<string, number> = {
+  C: 0, 'C#': 1, Db: 1, D: 2, 'D#': 3, Eb: 3, E: 4, Fb: 4, 'E#': 5, F: 5, 'F#': 6, Gb: 6,
+  G: 7, 'G#': 8, Ab: 8, A: 9, 'A#': 10, Bb: 10, B: 11, Cb: 11, 'B#': 0
+};
+
+// Krumhansl-Kessler key profiles, starting on the tonic
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+// A voice whose notes (by duration) are at least this triadic is treated as a T-voice as a whole
+const T_VOICE_RATIO = 0.9;
+
+const pitchClass = (note: number) => ((note % 12) + 12) % 12;
+
+const makeTriad = (tonic: number, mode: 'major' | 'minor', source: TonicTriad['source']): TonicTriad => ({
+  tonic,
+  mode,
+  pitchClasses: [tonic, (tonic + (mode === 'major' ? 4 : 3)) % 12, (tonic + 7) % 12],
+  name: `${PITCH_NAMES[tonic]} ${mode}`,
+  source
+});
+
+const correlation = (a: number[], b: number[]) => {
+  const mean = (v: number[]) => v.reduce((s, x) => s + x, 0) / v.length;
+  const ma = mean(a);
+  const mb = mean(b);
+  let num = 0, da = 0, db = 0;
+  for (let i = 0; i < a.length; i++) {
+    num += (a[i] - ma) * (b[i] - mb);
+    da += (a[i] - ma) ** 2;
+    db += (b[i] - mb) ** 2;
+  }
+  return da > 0 && db > 0 ? num / Math.sqrt(da * db) : 0;
+};
+
+// Krumhansl-Schmuckler: correlate the duration-weighted pitch-class histogram with every rotated profile
+export const estimateTonicTriad = (notes: NoteEvent[]): TonicTriad => {
+  const histogram = new Array(12).fill(0);
+  for (const n of notes) histogram[pitchClass(n.note)] += n.duration;
+
+  let best = makeTriad(0, 'major', 'estimated');
+  let bestScore = -Infinity;
+  for (let tonic = 0; tonic < 12; tonic++) {
+    for (const [mode, profile] of [['major', MAJOR_PROFILE], ['minor', MINOR_PROFILE]] as const) {
+      const rotated = histogram.map((_, pc) => profile[(pc - tonic + 12) % 12]);
+      const score = correlation(histogram, rotated);
+      if (score > bestScore) {
+        bestScore = score;
+        best = makeTriad(tonic, mode, 'estimated');
+      }
+    }
+  }
+  return best;
+};
+
+// The file's first key signature wins; otherwise the key is estimated from the notes
+export const getTonicTriad = (midi: MidiDocument): TonicTriad => {
+  const key = midi.keySignatures[0];
+  const tonic = key ? PITCH_CLASSES[key.key] : undefined;
+  if (key && tonic !== undefined) {
+    return makeTriad(tonic, key.scale === 'minor' ? 'minor' : 'major', 'key signature');
+  }
+  return estimateTonicTriad(midi.notes);
+};
+
+const overlaps = (a: NoteEvent, b: NoteEvent) =>
+  a.startTime < b.startTime + b.duration && b.startTime < a.startTime + a.duration;
+
+// Notes sorted by start time, searchable for everything sounding during a given note
+const makeOverlapIndex = (notes: NoteEvent[]) => {
+  const sorted = [...notes].sort((a, b) => a.startTime - b.startTime);
+  const longest = sorted.reduce((max, n) => Math.max(max, n.duration), 0);
+  return (n: NoteEvent) => {
+    const from = n.startTime - longest;
+    let lo = 0;
+    let hi = sorted.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (sorted[mid].startTime < from) lo = mid + 1;
+      else hi = mid;
+    }
+    const found: NoteEvent[] = [];
+    for (let i = lo; i < sorted.length && sorted[i].startTime < n.startTime + n.duration; i++) {
+      if (sorted[i] !== n && overlaps(n, sorted[i])) found.push(sorted[i]);
+    }
+    return found;
+  };
+};
+
+// Splits the notes into M-voice (melody, moving mostly by step) and T-voice (arpeggiating the tonic triad).
+// When the file keeps the voices on separate tracks/channels, each voice is judged as a whole. Otherwise
+// every note is judged alone: non-triad notes are M; a triad note is T when it sounds against an M note
+// or leaps away from (or repeats) the neighbouring onsets, and M when it moves by step like a melody.
+const classifyRoles = (notes: NoteEvent[], triad: TonicTriad) => {
+  const inTriad = (n: NoteEvent) => triad.pitchClasses.includes(pitchClass(n.note));
+  const roles = new Map<NoteEvent, 'M' | 'T'>();
+
+  const voices = new Map<string, NoteEvent[]>();
+  for (const n of notes) {
+    const key = getTrackKey(n);
+    if (!voices.has(key)) voices.set(key, []);
+    voices.get(key)!.push(n);
+  }
+
+  const voiceRoles = new Map<string, 'M' | 'T'>();
+  for (const [key, voice] of voices) {
+    const total = voice.reduce((s, n) => s + n.duration, 0);
+    const triadic = voice.filter(inTriad).reduce((s, n) => s + n.duration, 0);
+    voiceRoles.set(key, total > 0 && triadic / total >= T_VOICE_RATIO ? 'T' : 'M');
+  }
+
+  const roleSet = new Set(voiceRoles.values());
+  if (roleSet.size === 2) {
+    for (const n of notes) roles.set(n, voiceRoles.get(getTrackKey(n))!);
+    return roles;
+  }
+
+  const nonTriad = notes.filter(n => !inTriad(n));
+  for (const n of nonTriad) roles.set(n, 'M');
+  const soundingMelody = makeOverlapIndex(nonTriad);
+
+  for (const [, voice] of voices) {
+    // Chords in the voice, in time order, so neighbours are the previous and next onsets
+    const onsets: NoteEvent[][] = [];
+    for (const n of [...voice].sort((a, b) => a.startTime - b.startTime)) {
+      const last = onsets[onsets.length - 1];
+      if (last && n.startTime - last[0].startTime < 1e-3) last.push(n);
+      else onsets.push([n]);
+    }
+    onsets.forEach((chord, i) => {
+      const neighbours = [...(onsets[i - 1] ?? []), ...(onsets[i + 1] ?? [])];
+      for (const n of chord) {
+        if (roles.has(n)) continue;
+        const againstMelody = soundingMelody(n).length > 0;
+        // A step of one or two semitones; repeated notes are typical of the T-voice, not the melody
+        const stepwise = neighbours.some(o => {
+          const interval = Math.abs(o.note - n.note);
+          return interval >= 1 && interval <= 2;
+        });
+        roles.set(n, !againstMelody && stepwise ? 'M' : 'T');
+      }
+    });
+  }
+  return roles;
+};
+
+// Counts triad tones from the M note to the T note: 1 is the nearest triad tone above (superior)
+// or below (inferior) the melody, 2 the next one, and so on
+const getPosition = (t: NoteEvent, m: NoteEvent, triad: TonicTriad): TintinnabuliRole['position'] => {
+  if (t.note === m.note) return null;
+  const side = t.note > m.note ? 'superior' : 'inferior';
+  const [lo, hi] = side === 'superior' ? [m.note + 1, t.note] : [t.note, m.note - 1];
+  let order = 0;
+  for (let p = lo; p <= hi; p++) if (triad.pitchClasses.includes(pitchClass(p))) order++;
+  return order > 0 ? { side, order } : null;
+};
+
+export const analyzeTintinnabuli = (midi: MidiDocument): TintinnabuliAnalysis => {
+  const triad = getTonicTriad(midi);
+  const roles = classifyRoles(midi.notes, triad);
+  const soundingMelody = makeOverlapIndex(midi.notes.filter(n => roles.get(n) === 'M'));
+
+  const result = new Map<NoteEvent, TintinnabuliRole>();
+  for (const n of midi.notes) {
+    const role = roles.get(n)!;
+    if (role === 'M') {
+      result.set(n, { role, position: null });
+      continue;
+    }
+    // The melody note sounding when the T note starts, nearest in pitch if several are
+    let reference: NoteEvent | null = null;
+    for (const m of soundingMelody(n)) {
+      if (m.startTime > n.startTime + 1e-3) continue;
+      if (!reference || Math.abs(m.note - n.note) < Math.abs(reference.note - n.note)) reference = m;
+    }
+    result.set(n, { role, position: reference ? getPosition(n, reference, triad) : null });
+  }
+
+  return { triad, roles: result };
+};
+
+// Analysis is keyed by document so the export loop can ask for it every frame
+const analysisCache = new WeakMap<MidiDocument, TintinnabuliAnalysis>();
+
+export const getTintinnabuliAnalysis = (midi: MidiDocument) => {
+  let analysis = analysisCache.get(midi);
+  if (!analysis) {
+    analysis = analyzeTintinnabuli(midi);
+    analysisCache.set(midi, analysis);
+  }
+  return analysis;
+};
+
+export const getVoiceOptions = (settings: AppSettings, midi: MidiDocument): PianoRollOptions['voices'] =>
+  settings.showVoiceRoles
+    ? { analysis: getTintinnabuliAnalysis(midi), positions: settings.showVoicePositions, legend: settings.showVoiceLegend }
+    : undefined;
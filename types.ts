@@ -7,7 +7,237 @@ export interface NoteEvent {
   channel?: number; // Channel for fallback differentiation
 }
 
-export type ThemeMode = 'normal' | 'image';
+export interface TempoChange {
+  time: number; // in seconds
+  ticks: number;
+  bpm: number;
+}
+
+export interface TimeSignatureChange {
+  time: number;
+  ticks: number;
+  numerator: number;
+  denominator: number;
+}
+
+export interface KeySignatureChange {
+  time: number;
+  ticks: number;
+  key: string;   // e.g. 'C', 'F#', 'Bb'
+  scale: string; // 'major' | 'minor'
+}
+
+export interface MidiTrackInfo {
+  index: number; // matches NoteEvent.track
+  name: string;
+  instrument: string;
+  channel: number;
+  percussion: boolean;
+  noteCount: number;
+}
+
+// Text meta events: lyric (FF 05), text (FF 01), marker (FF 06) and cue point (FF 07)
+export type MidiTextKind = 'lyric' | 'text' | 'marker' | 'cue';
+
+export interface MidiTextEvent {
+  time: number;
+  ticks: number;
+  track: number;
+  kind: MidiTextKind;
+  text: string;
+}
+
+// A named point of the piece (marker or cue point), labelled on the piano roll
+export interface SectionMarker {
+  time: number;
+  text: string;
+}
+
+// One beat of the tempo map, in seconds; bar lines carry their 1-based bar number
+export interface BeatMarker {
+  time: number;
+  bar: number | null;
+}
+
+// Everything kept from a parsed MIDI file, not just its notes
+export interface MidiDocument {
+  name: string;
+  ppq: number;
+  duration: number;
+  notes: NoteEvent[];
+  tracks: MidiTrackInfo[];
+  tempos: TempoChange[];
+  timeSignatures: TimeSignatureChange[];
+  keySignatures: KeySignatureChange[];
+  textEvents: MidiTextEvent[]; // in time order, from every track
+  beats: BeatMarker[];
+}
+
+// One voice in the track list: a track/channel pair, keyed as "track:channel"
+export interface TrackRow {
+  key: string;
+  track: number;
+  channel: number;
+  name: string;
+  noteCount: number;
+}
+
+export interface TrackStyle {
+  visible: boolean;
+  solo: boolean;
+  color: string | null; // null keeps the theme colour
+}
+
+export interface TrackSettings {
+  styles: Record<string, TrackStyle>;
+  order: string[]; // track keys, back to front; unlisted voices stay underneath in file order
+}
+
+// 'horizontal' scrolls right to left, 'falling' drops notes from the top onto the playhead
+export type PianoRollOrientation = 'horizontal' | 'falling';
+
+// Whether the visible span is a fixed number of seconds or of bars (following the tempo map)
+export type PianoRollWindowUnit = 'seconds' | 'bars';
+
+// 'full' shows all 88 keys, 'fit' the range the notes use, 'custom' rollMinNote-rollMaxNote
+export type KeyRangeMode = 'full' | 'fit' | 'custom';
+
+// Resolved view used by drawPianoRoll
+export interface PianoRollViewport {
+  orientation: PianoRollOrientation;
+  window: number;     // visible span: seconds, or bars when barTimes is set
+  playhead: number;   // 0 to 1, distance of the playhead from the edge where notes leave
+  minNote: number;
+  maxNote: number;
+  barTimes?: number[]; // bar start times in seconds; measures the time axis in bars
+}
+
+export interface TonicTriad {
+  tonic: number;           // pitch class, 0 = C
+  mode: 'major' | 'minor';
+  pitchClasses: number[];  // root, third, fifth
+  name: string;            // e.g. 'A minor'
+  source: 'key signature' | 'estimated';
+}
+
+// M-voice: the melody. T-voice: the tintinnabuli voice sounding the tonic triad around it,
+// at its nth triad tone above (superior) or below (inferior) the sounding melody note
+export interface TintinnabuliRole {
+  role: 'M' | 'T';
+  position: { side: 'superior' | 'inferior'; order: number } | null;
+}
+
+export interface TintinnabuliAnalysis {
+  triad: TonicTriad;
+  roles: Map<NoteEvent, TintinnabuliRole>; // keyed by the note objects of the analysed document
+}
+
+// Optional note effects, combined freely; presets are named combinations
+export interface NoteStyles {
+  velocity: boolean;    // louder notes are more opaque and thicker
+  ripples: boolean;     // rings spread from the playhead on note-on, like a struck bell
+  trails: boolean;      // a fading streak follows each note after note-off
+  connections: boolean; // thin lines join consecutive notes within a voice
+}
+
+export interface PianoRollOptions {
+  beats?: BeatMarker[]; // draws the bar/beat grid when given
+  tracks?: TrackSettings;
+  viewport?: PianoRollViewport;
+  keyboard?: boolean; // piano keys along the edge behind the playhead
+  styles?: NoteStyles;
+  backgroundOpacity?: number; // below 1 the background layers show through
+  markers?: SectionMarker[];  // labelled lines across the roll
+  voices?: {          // colours and styles notes by tintinnabuli role
+    analysis: TintinnabuliAnalysis;
+    positions: boolean;
+    legend: boolean;
+  };
+}
+
+// Messages to pianoRollWorker.ts. The notes travel with their analysis, since structured cloning
+// only keeps the roles map pointing at the same note objects within a single message.
+export type PianoRollWorkerMessage =
+  | { type: 'init'; canvas: OffscreenCanvas }
+  | { type: 'notes'; notes: NoteEvent[]; analysis: TintinnabuliAnalysis | null }
+  | {
+      type: 'scene';
+      palette: string[];
+      backgroundColor: string;
+      width: number;
+      height: number;
+      dpr: number;
+      options: Omit<PianoRollOptions, 'voices'> & { voices?: { positions: boolean; legend: boolean } };
+    }
+  | { type: 'frame'; time: number };
+
+export type ThemeMode = 'normal' | 'image' | 'custom';
+
+export type BackgroundGradient = 'none' | 'linear' | 'radial';
+
+// Layers painted over the theme background, behind the piano roll and analysis panels.
+// Amounts run from 0 (off) to 1.
+export interface BackgroundLayers {
+  cover: number;            // full-bleed, blurred copy of the cover
+  blur: number;             // cover blur radius in px of a 1080-px frame, 0 to 80
+  gradient: BackgroundGradient;
+  gradientStrength: number; // palette gradient from the first two track colours
+  noise: number;            // soft noise drifting slowly while playing
+  grain: number;            // film grain, changing 12 times a second
+  vignette: number;         // darkened edges
+  panelOpacity: number;     // how much of the theme background the panels keep; 1 hides the layers behind them
+}
+
+export interface AlignmentResult {
+  offsetMs: number;
+  confidence: number; // 0 (ambiguous) to 1 (one clear match)
+  ambiguous: boolean;
+}
+
+// Loop in/out points in audio time (seconds)
+export interface LoopRegion {
+  start: number;
+  end: number;
+  enabled: boolean;
+}
+
+export type VideoExportFormat = 'mp4' | 'webm';
+
+// Built-in voices used to play the MIDI when no audio file is loaded
+export type SynthTimbre = 'bell' | 'piano' | 'organ';
+
+// 'live' reads the AnalyserNode, 'buffer' reads the decoded samples at currentTime
+export type ScopeSource = 'live' | 'buffer';
+
+// 'free' shows the raw window, 'trigger' starts it on a rising edge,
+// 'pitch' also locks the window to whole periods of the sounding notes
+export type ScopeSyncMode = 'free' | 'trigger' | 'pitch';
+
+// 'mono' is the L+R mix, 'stacked' shows L above R, 'xy' plots L against R, 'midside' shows M above S
+export type ScopeMode = 'mono' | 'stacked' | 'xy' | 'midside';
+
+export interface StereoSamples {
+  left: Float32Array;
+  right: Float32Array;
+}
+
+export interface StereoAnalysers {
+  left: AnalyserNode;
+  right: AnalyserNode;
+}
+
+export type SpectrumStyle = 'bars' | 'line';
+
+// What fills the panel beside the piano roll
+export type AnalysisView = 'scope' | 'spectrum' | 'spectrogram' | 'scope+spectrogram';
+
+export interface ScopeSyncOptions {
+  mode: ScopeSyncMode;
+  windowMs: number;
+  triggerLevel: number;      // -1 to 1
+  triggerHysteresis: number; // 0 to 0.5
+  period: number | null;     // seconds, only used by 'pitch'
+}
 
 export interface ThemePalette {
   background: string;
@@ -16,16 +246,10 @@ export interface ThemePalette {
   text: string;
 }
 
-export interface AppSettings {
-  title: string;
-  offsetMs: number;
-  themeMode: ThemeMode;
-  aspectRatio: '16:9' | '9:16';
-  themeBrightness: number; // 0 to 200, default 100
-  themeContrast: number;   // 0 to 200, default 100
-  imageZoom: number;       // 1 to 3, default 1
-  imageOffsetY: number;    // -50 to 50, default 0
-  scopeLineWidth: number;  // 1 to 10, default 2
+// A palette with a name, as listed in the theme editor and stored in theme files
+export interface NamedTheme {
+  name: string;
+  theme: ThemePalette;
 }
 
 export const DEFAULT_THEME: ThemePalette = {
@@ -38,4 +262,200 @@ export const DEFAULT_THEME: ThemePalette = {
     '#4a4a4a', // Track 3: Dark Grey
     '#b0b0b0', // Track 4: Light Grey
   ]
-};
\ No newline at end of file
+};
+
+// How the cover and title react to the music; intensities run from 0 (off) to 1
+export interface CoverReactions {
+  pulse: number;     // the cover swells with the audio level
+  glow: number;      // the cover glows on each melody note-on
+  kenBurns: number;  // slow pan and zoom across the cover
+  titleFade: number; // seconds the title takes to fade in at the start and out at the end, 0 to 5
+}
+
+export type AspectRatio = '16:9' | '9:16' | '1:1' | '4:5' | '21:9';
+export type ExportResolution = '1080p' | '4k';
+
+export type LayoutPanelKind = 'piano' | 'scope' | 'spectrogram' | 'cover' | 'title' | 'captions' | 'lyrics';
+
+// One block of the video frame. Rectangles are fractions of the frame, so a layout fits any
+// resolution of its aspect ratio; panels are drawn in list order, the last one on top.
+export interface LayoutPanel {
+  kind: LayoutPanelKind; // 'scope' shows settings.analysisView, 'spectrogram' always the spectrogram
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  blend?: boolean; // title only: difference blend over whatever is behind it
+}
+
+export interface NamedLayout {
+  name: string;
+  aspectRatio: AspectRatio;
+  panels: LayoutPanel[];
+}
+
+export type TextFont = 'cormorant' | 'eb-garamond' | 'playfair' | 'baskerville';
+
+// Shown from `time` (audio seconds) until the next caption starts, for at most CAPTION_SECONDS
+export interface TimedCaption {
+  time: number;
+  text: string;
+}
+
+export interface LyricSyllable {
+  time: number;
+  text: string; // including any trailing space before the next word
+}
+
+// One line of the karaoke display, in audio time; syllables light up at their times
+export interface LyricLine {
+  start: number;
+  end: number;
+  syllables: LyricSyllable[];
+}
+
+export interface AppSettings {
+  title: string;           // may hold several lines
+  subtitle: string;
+  composer: string;
+  opus: string;            // opus number or movement, shown after the composer
+  performer: string;
+  textFont: TextFont;      // title, credits and captions
+  captions: TimedCaption[];
+  lyrics: LyricLine[];     // imported from an LRC or SRT file; replaces the MIDI lyrics
+  showLyrics: boolean;
+  showMarkers: boolean;    // section labels from MIDI markers on the piano roll
+  offsetMs: number;
+  themeMode: ThemeMode;
+  aspectRatio: AspectRatio;
+  layout: LayoutPanel[] | null; // null uses the aspect ratio's preset
+  themeBrightness: number; // 0 to 200, default 100
+  themeContrast: number;   // 0 to 200, default 100
+  themeCandidate: number;  // which of the cover's candidate palettes is used
+  customTheme: ThemePalette; // used when themeMode is 'custom'
+  background: BackgroundLayers;
+  reactions: CoverReactions;
+  imageZoom: number;       // 1 to 3, default 1
+  imageOffsetY: number;    // -50 to 50, default 0
+  scopeLineWidth: number;  // 1 to 10, default 2
+  scopeSource: ScopeSource;
+  scopeMode: ScopeMode;
+  scopeSync: ScopeSyncMode;
+  scopeWindowMs: number;        // 5 to 200, default 40
+  scopeTriggerLevel: number;    // -1 to 1, default 0
+  scopeTriggerHysteresis: number; // 0 to 0.5, default 0.05
+  analysisView: AnalysisView;
+  spectrumStyle: SpectrumStyle;
+  showBeatGrid: boolean;
+  tracks: TrackSettings;
+  synthTimbre: SynthTimbre;
+  rollOrientation: PianoRollOrientation;
+  rollWindowUnit: PianoRollWindowUnit;
+  rollWindowSeconds: number; // 2 to 30, default 10
+  rollWindowBars: number;    // 1 to 16, default 4
+  rollPlayhead: number;      // 0 to 0.9, default 0.25
+  rollKeyRange: KeyRangeMode;
+  rollMinNote: number;       // used when rollKeyRange is 'custom'
+  rollMaxNote: number;
+  showKeyboard: boolean;
+  noteStyles: NoteStyles;
+  showVoiceRoles: boolean;
+  showVoicePositions: boolean;
+  showVoiceLegend: boolean;
+  rollWorker: boolean;     // draw the piano roll off the main thread where OffscreenCanvas allows
+  exportFormat: VideoExportFormat;
+  exportFps: number;       // 30 or 60, default 30
+  exportResolution: ExportResolution;
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  title: '',
+  subtitle: '',
+  composer: '',
+  opus: '',
+  performer: '',
+  textFont: 'cormorant',
+  captions: [],
+  lyrics: [],
+  showLyrics: true,
+  showMarkers: true,
+  offsetMs: 0,
+  themeMode: 'normal',
+  aspectRatio: '16:9',
+  layout: null,
+  themeBrightness: 100,
+  themeContrast: 100,
+  themeCandidate: 0,
+  customTheme: DEFAULT_THEME,
+  reactions: { pulse: 0, glow: 0, kenBurns: 0, titleFade: 0 },
+  background: { cover: 0, blur: 40, gradient: 'none', gradientStrength: 0.5, noise: 0, grain: 0, vignette: 0, panelOpacity: 1 },
+  imageZoom: 1,
+  imageOffsetY: 0,
+  scopeLineWidth: 2,
+  scopeSource: 'buffer',
+  scopeMode: 'mono',
+  scopeSync: 'trigger',
+  scopeWindowMs: 40,
+  scopeTriggerLevel: 0,
+  scopeTriggerHysteresis: 0.05,
+  analysisView: 'scope',
+  spectrumStyle: 'bars',
+  showBeatGrid: false,
+  tracks: { styles: {}, order: [] },
+  synthTimbre: 'bell',
+  rollOrientation: 'horizontal',
+  rollWindowUnit: 'seconds',
+  rollWindowSeconds: 10,
+  rollWindowBars: 4,
+  rollPlayhead: 0.25,
+  rollKeyRange: 'full',
+  rollMinNote: 21,
+  rollMaxNote: 108,
+  showKeyboard: false,
+  noteStyles: { velocity: false, ripples: false, trails: false, connections: false },
+  showVoiceRoles: false,
+  showVoicePositions: true,
+  showVoiceLegend: true,
+  rollWorker: false,
+  exportFormat: 'mp4',
+  exportFps: 30,
+  exportResolution: '1080p'
+};
+
+// A file the user loaded, kept as-is so projects can save it again
+export interface ProjectFile {
+  name: string;
+  type: string; // MIME type, may be empty
+  data: Blob;
+}
+
+// Everything needed to restore a session
+export interface Project {
+  settings: AppSettings;
+  generatedTheme: ThemePalette;
+  midi: ProjectFile | null;
+  notes: NoteEvent[] | null; // only stored when there is no MIDI file (demo notes)
+  cover: ProjectFile | null;
+  audio: ProjectFile | null;
+  audioReference: { name: string; size: number } | null; // audio that was left out of the file
+}
+
+// --- IMPORT ---
+
+// What a loaded or dropped file turned out to be, judged from its first bytes
+export type ImportKind = 'midi' | 'score' | 'audio' | 'image' | 'project';
+
+export interface ImportIssues {
+  errors: string[];   // the file was not loaded
+  warnings: string[]; // the file was loaded, but may not look as expected
+}
+
+export interface ImportResult<T> extends ImportIssues {
+  value: T | null; // null whenever there are errors
+}
+
+// Shown in the settings panel after each import
+export interface ImportReport extends ImportIssues {
+  file: string;
+  kind: ImportKind | null;
+}
@@ -1,34 +1,270 @@
-import { NoteEvent, ThemePalette, DEFAULT_THEME } from './types';
+import {
+  NoteEvent, LoopRegion, MidiDocument, MidiTrackInfo, MidiTextEvent, MidiTextKind,
+  BeatMarker, TimeSignatureChange, TrackRow, TrackStyle, TrackSettings
+} from './types';
 import { Midi } from '@tonejs/midi';
 
-// Real MIDI Parser using @tonejs/midi
-export const parseMidi = (arrayBuffer: ArrayBuffer): NoteEvent[] => {
+const DEFAULT_PPQ = 480;
+
+// Walks the time signatures beat by beat up to `endTicks`; defaults to 4/4 when the file has none
+export const buildBeatGrid = (
+  ppq: number,
+  timeSignatures: TimeSignatureChange[],
+  endTicks: number,
+  ticksToSeconds: (ticks: number) => number
+): BeatMarker[] => {
+  const segments = timeSignatures.length > 0 && timeSignatures[0].ticks === 0
+    ? timeSignatures
+    : [{ time: 0, ticks: 0, numerator: 4, denominator: 4 }, ...timeSignatures];
+
+  const beats: BeatMarker[] = [];
+  let bar = 1;
+  segments.forEach((sig, i) => {
+    const segmentEnd = i + 1 < segments.length ? segments[i + 1].ticks : endTicks;
+    const beatTicks = (ppq * 4) / sig.denominator;
+    for (let beat = 0, tick = sig.ticks; tick < segmentEnd; beat++, tick = sig.ticks + beat * beatTicks) {
+      const isBar = beat % sig.numerator === 0;
+      beats.push({ time: ticksToSeconds(tick), bar: isBar ? bar++ : null });
+    }
+  });
+  return beats;
+};
+
+const TEXT_META_KINDS: Record<number, MidiTextKind> = { 0x01: 'text', 0x05: 'lyric', 0x06: 'marker', 0x07: 'cue' };
+
+// Text is usually UTF-8 in recent files and Latin-1 in older ones
+const decodeMetaText = (data: Uint8Array) => {
   try {
-    const midi = new Midi(arrayBuffer);
-    const allNotes: NoteEvent[] = [];
-
-    midi.tracks.forEach((track, trackIndex) => {
-      track.notes.forEach(note => {
-        // @ts-ignore
-        const noteChannel = note.channel;
-        const trackChannel = track.channel;
-        
-        allNotes.push({
-          note: note.midi,             
-          velocity: note.velocity * 127,
-          startTime: note.time,        
-          duration: note.duration,     
-          track: trackIndex,           
-          channel: (typeof noteChannel === 'number') ? noteChannel : (trackChannel || 0)
-        });
+    return new TextDecoder('utf-8', { fatal: true }).decode(data);
+  } catch (e) {
+    return new TextDecoder('windows-1252').decode(data);
+  }
+};
+
+// @tonejs/midi keeps text events from the first track only, and lyrics usually sit on a voice's
+// own track, so every MTrk chunk is walked here. Times are left in ticks for the tempo map.
+const readTextEvents = (bytes: Uint8Array): Omit<MidiTextEvent, 'time'>[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const events: Omit<MidiTextEvent, 'time'>[] = [];
+  if (bytes.length < 8) return events;
+
+  let pos = 8 + view.getUint32(4);
+  let track = 0;
+  while (pos + 8 <= bytes.length) {
+    const id = String.fromCharCode(...bytes.subarray(pos, pos + 4));
+    const end = Math.min(bytes.length, pos + 8 + view.getUint32(pos + 4));
+    pos += 8;
+    if (id !== 'MTrk') {
+      pos = end;
+      continue;
+    }
+
+    let p = pos;
+    let ticks = 0;
+    let status = 0;
+    const readLength = () => {
+      let value = 0;
+      for (let i = 0; i < 4 && p < end; i++) {
+        const b = bytes[p++];
+        value = (value << 7) | (b & 0x7f);
+        if (!(b & 0x80)) break;
+      }
+      return value;
+    };
+
+    while (p < end) {
+      ticks += readLength();
+      const b = bytes[p];
+      if (b === 0xff) {
+        const type = bytes[p + 1];
+        p += 2;
+        const length = readLength();
+        const kind = TEXT_META_KINDS[type];
+        if (kind) events.push({ ticks, track, kind, text: decodeMetaText(bytes.subarray(p, Math.min(end, p + length))) });
+        p += length;
+        if (type === 0x2f) break;
+      } else if (b === 0xf0 || b === 0xf7) {
+        p++;
+        p += readLength();
+      } else {
+        // Channel messages may leave out a repeated status byte
+        if (b & 0x80) {
+          status = b;
+          p++;
+        }
+        const kind = status & 0xf0;
+        p += kind === 0xc0 || kind === 0xd0 ? 1 : 2;
+      }
+    }
+    track++;
+    pos = end;
+  }
+  return events;
+};
+
+// @tonejs/midi names a key signature by its major key even when the file marks it minor;
+// the minor tonic is the relative minor, three semitones below
+const RELATIVE_MINORS: Record<string, string> = {
+  Cb: 'Ab', Gb: 'Eb', Db: 'Bb', Ab: 'F', Eb: 'C', Bb: 'G', F: 'D',
+  C: 'A', G: 'E', D: 'B', A: 'F#', E: 'C#', B: 'G#', 'F#': 'D#', 'C#': 'A#'
+};
+
+// Real MIDI Parser using @tonejs/midi. Throws on data that isn't a Standard MIDI File;
+// importMidi turns that (and anything odd about the notes) into an import report.
+export const parseMidi = (arrayBuffer: ArrayBuffer): MidiDocument => {
+  const midi = new Midi(arrayBuffer);
+  const { header } = midi;
+  const allNotes: NoteEvent[] = [];
+  const tracks: MidiTrackInfo[] = [];
+
+  midi.tracks.forEach((track, trackIndex) => {
+    track.notes.forEach(note => {
+      // @ts-ignore
+      const noteChannel = note.channel;
+      const trackChannel = track.channel;
+      
+      allNotes.push({
+        note: note.midi,             
+        velocity: note.velocity * 127,
+        startTime: note.time,        
+        duration: note.duration,     
+        track: trackIndex,           
+        channel: (typeof noteChannel === 'number') ? noteChannel : (trackChannel || 0)
       });
     });
-    
-    return allNotes.sort((a, b) => a.startTime - b.startTime);
-  } catch (error) {
-    console.error("Failed to parse MIDI:", error);
-    return generateMockNotes();
+
+    tracks.push({
+      index: trackIndex,
+      name: track.name || `Track ${trackIndex + 1}`,
+      instrument: track.instrument.name,
+      channel: track.channel || 0,
+      percussion: track.instrument.percussion,
+      noteCount: track.notes.length
+    });
+  });
+
+  const timeSignatures = header.timeSignatures.map(ts => ({
+    time: header.ticksToSeconds(ts.ticks),
+    ticks: ts.ticks,
+    numerator: ts.timeSignature[0],
+    denominator: ts.timeSignature[1]
+  }));
+
+  // Pad the grid by a bar so it doesn't stop short of the final release
+  const endTicks = midi.durationTicks + header.ppq * 4;
+
+  return {
+    name: header.name,
+    ppq: header.ppq,
+    duration: midi.duration,
+    notes: allNotes.sort((a, b) => a.startTime - b.startTime),
+    tracks,
+    tempos: header.tempos.map(t => ({ time: header.ticksToSeconds(t.ticks), ticks: t.ticks, bpm: t.bpm })),
+    timeSignatures,
+    keySignatures: header.keySignatures.map(k => ({
+      time: header.ticksToSeconds(k.ticks),
+      ticks: k.ticks,
+      key: k.scale === 'minor' ? RELATIVE_MINORS[k.key] ?? k.key : k.key,
+      scale: k.scale
+    })),
+    textEvents: readTextEvents(new Uint8Array(arrayBuffer))
+      .sort((a, b) => a.ticks - b.ticks)
+      .map(e => ({ ...e, time: header.ticksToSeconds(e.ticks) })),
+    beats: buildBeatGrid(header.ppq, timeSignatures, endTicks, t => header.ticksToSeconds(t))
+  };
+};
+
+// Wraps bare notes (mock data, other importers) in a document with a 120 bpm 4/4 grid
+export const createMidiDocument = (notes: NoteEvent[], name: string = ''): MidiDocument => {
+  const secondsPerTick = 0.5 / DEFAULT_PPQ;
+  const duration = notes.reduce((end, n) => Math.max(end, n.startTime + n.duration), 0);
+  const trackIndices = [...new Set(notes.map(n => n.track || 0))].sort((a, b) => a - b);
+
+  return {
+    name,
+    ppq: DEFAULT_PPQ,
+    duration,
+    notes,
+    tracks: trackIndices.map(index => ({
+      index,
+      name: `Track ${index + 1}`,
+      instrument: '',
+      channel: notes.find(n => (n.track || 0) === index)?.channel || 0,
+      percussion: false,
+      noteCount: notes.filter(n => (n.track || 0) === index).length
+    })),
+    tempos: [{ time: 0, ticks: 0, bpm: 120 }],
+    timeSignatures: [{ time: 0, ticks: 0, numerator: 4, denominator: 4 }],
+    keySignatures: [],
+    textEvents: [],
+    beats: buildBeatGrid(DEFAULT_PPQ, [], (duration / secondsPerTick) + DEFAULT_PPQ * 4, t => t * secondsPerTick)
+  };
+};
+
+// --- TRACKS ---
+
+export const getTrackKey = (n: NoteEvent) => `${n.track || 0}:${n.channel || 0}`;
+
+export const DEFAULT_TRACK_STYLE: TrackStyle = { visible: true, solo: false, color: null };
+
+const compareTracks = (a: { track: number; channel: number }, b: { track: number; channel: number }) =>
+  a.track - b.track || a.channel - b.channel;
+
+// One row per track/channel pair that actually has notes, in file order
+export const getTrackRows = (midi: MidiDocument): TrackRow[] => {
+  const rows = new Map<string, TrackRow>();
+  for (const n of midi.notes) {
+    const key = getTrackKey(n);
+    const row = rows.get(key);
+    if (row) { row.noteCount++; continue; }
+    const track = n.track || 0;
+    const channel = n.channel || 0;
+    const info = midi.tracks.find(t => t.index === track);
+    rows.set(key, { key, track, channel, name: info?.name || `Track ${track + 1}`, noteCount: 1 });
+  }
+
+  const list = [...rows.values()].sort(compareTracks);
+  // Tag the channel only where one track spreads over several
+  return list.map(row => list.some(r => r.track === row.track && r !== row)
+    ? { ...row, name: `${row.name} · ch ${row.channel + 1}` }
+    : row);
+};
+
+// Row of each voice in getTrackRows order, cached per note list since the piano roll looks it up for every note
+const trackRowIndexCache = new WeakMap<NoteEvent[], Map<string, number>>();
+
+export const getTrackRowIndex = (notes: NoteEvent[]): Map<string, number> => {
+  let index = trackRowIndexCache.get(notes);
+  if (!index) {
+    const voices = new Map<string, { track: number; channel: number }>();
+    for (const n of notes) voices.set(getTrackKey(n), { track: n.track || 0, channel: n.channel || 0 });
+    const keys = [...voices.keys()].sort((a, b) => compareTracks(voices.get(a)!, voices.get(b)!));
+    index = new Map(keys.map((key, i) => [key, i]));
+    trackRowIndexCache.set(notes, index);
   }
+  return index;
+};
+
+// Theme colour of a voice: its row indexes the palette, so voices only share a colour once the palette runs out
+export const getThemeTrackColor = (row: number, palette: string[]) => palette[row % palette.length];
+
+export const getNoteColor = (n: NoteEvent, palette: string[], rows: Map<string, number>, tracks?: TrackSettings) => {
+  const key = getTrackKey(n);
+  return tracks?.styles[key]?.color ?? getThemeTrackColor(rows.get(key) ?? 0, palette);
+};
+
+// Drops hidden voices (or everything but the soloed ones) and sorts the rest back to front
+export const applyTrackSettings = (notes: NoteEvent[], tracks: TrackSettings): NoteEvent[] => {
+  const styles = Object.values(tracks.styles);
+  const anySolo = styles.some(s => s.solo);
+  const visible = notes.filter(n => {
+    const style = tracks.styles[getTrackKey(n)] ?? DEFAULT_TRACK_STYLE;
+    return anySolo ? style.solo : style.visible;
+  });
+  if (tracks.order.length === 0) return visible;
+
+  const layer = new Map(tracks.order.map((key, i) => [key, i]));
+  return visible.sort((a, b) => (layer.get(getTrackKey(a)) ?? -1) - (layer.get(getTrackKey(b)) ?? -1));
 };
 
 export const generateMockNotes = (): NoteEvent[] => {
@@ -60,135 +296,74 @@ export const generateMockNotes = (): NoteEvent[] => {
   return notes;
 };
 
-// --- DRAWING FUNCTIONS ---
-
-export const drawPianoRoll = (
-  ctx: CanvasRenderingContext2D,
-  notes: NoteEvent[],
-  currentTime: number,
-  palette: string[],
-  backgroundColor: string,
-  width: number,
-  height: number
-) => {
-  ctx.save();
-  ctx.fillStyle = backgroundColor;
-  ctx.fillRect(0, 0, width, height);
-
-  const bgLum = getHexLuminance(backgroundColor);
-  const isDarkBg = bgLum < 128;
-
-  const TIME_WINDOW = 10; 
-  const PX_PER_SEC = width / TIME_WINDOW;
-  const MIN_NOTE = 21; 
-  const MAX_NOTE = 108;
-  const TOTAL_KEYS = MAX_NOTE - MIN_NOTE + 1; 
-  const NOTE_HEIGHT = height / TOTAL_KEYS;
-  const PLAYHEAD_X = width * 0.25;
-  
-  // Playhead line
-  ctx.beginPath();
-  ctx.moveTo(PLAYHEAD_X, 0);
-  ctx.lineTo(PLAYHEAD_X, height);
-  ctx.lineWidth = Math.max(2, width * 0.002); 
-  ctx.strokeStyle = isDarkBg ? 'rgba(255,255,255,0.4)' : 'rgba(0,0,0,0.3)';
-  ctx.stroke();
-
-  notes.forEach(n => {
-    const relativeTime = n.startTime - currentTime;
-    const x = PLAYHEAD_X + (relativeTime * PX_PER_SEC);
-    const w = Math.max(n.duration * PX_PER_SEC, 3);
-    const noteIndex = n.note - MIN_NOTE;
-    const y = height - (noteIndex * NOTE_HEIGHT) - NOTE_HEIGHT;
-
-    if (x + w > -100 && x < width + 100) {
-      const discriminator = (n.track || 0) + (n.channel || 0);
-      const colorIdx = discriminator % palette.length;
-      const fillStyle = palette[colorIdx];
-      const isActive = currentTime >= n.startTime && currentTime <= (n.startTime + n.duration);
-
-      if (isActive) {
-         ctx.shadowBlur = 15;
-         ctx.shadowColor = fillStyle;
-         ctx.fillStyle = isDarkBg ? '#ffffff' : fillStyle;
-         if (ctx.roundRect) {
-              ctx.beginPath();
-              ctx.roundRect(x - 1, y - 1, w + 2, NOTE_HEIGHT * 0.85 + 2, 4);
-              ctx.fill();
-          } else {
-              ctx.fillRect(x - 1, y - 1, w + 2, NOTE_HEIGHT * 0.85 + 2);
-          }
-          ctx.shadowBlur = 0;
-      } else {
-         ctx.fillStyle = fillStyle;
-         ctx.globalAlpha = 0.9; 
-         ctx.shadowBlur = 4;
-         ctx.shadowColor = isDarkBg ? 'rgba(0,0,0,0.5)' : 'rgba(0,0,0,0.1)';
-         ctx.shadowOffsetX = 2;
-         ctx.shadowOffsetY = 2;
-         if (ctx.roundRect) {
-              ctx.beginPath();
-              ctx.roundRect(x, y, w, NOTE_HEIGHT * 0.85, 3);
-              ctx.fill();
-          } else {
-              ctx.fillRect(x, y, w, NOTE_HEIGHT * 0.85);
-          }
-          ctx.globalAlpha = 1.0;
-          ctx.shadowBlur = 0;
-          ctx.shadowOffsetX = 0;
-          ctx.shadowOffsetY = 0;
-      }
-    }
-  });
-  ctx.restore();
+// Dense, repeatable test material: `count` notes spread over 16 voices, for profiling the renderer
+export const generateStressNotes = (count: number = 50000): NoteEvent[] => {
+  const notes: NoteEvent[] = [];
+  let seed = 1;
+  const random = () => {
+    seed = (seed * 1664525 + 1013904223) % 4294967296;
+    return seed / 4294967296;
+  };
+  const voices = 16;
+  const times = new Array(voices).fill(0);
+  for (let i = 0; i < count; i++) {
+    const voice = i % voices;
+    const step = 0.05 + random() * 0.25;
+    notes.push({
+      note: 28 + voice * 4 + Math.floor(random() * 12),
+      velocity: 40 + Math.floor(random() * 87),
+      startTime: times[voice],
+      duration: step * (0.5 + random()),
+      track: voice,
+      channel: voice % 16
+    });
+    times[voice] += step;
+  }
+  return notes.sort((a, b) => a.startTime - b.startTime);
 };
 
-export const drawOscilloscope = (
-  ctx: CanvasRenderingContext2D,
-  analyser: AnalyserNode | null,
-  isPlaying: boolean,
-  color: string,
-  backgroundColor: string,
-  width: number,
-  height: number,
-  lineWidth: number = 2
-) => {
-  ctx.save();
-  ctx.fillStyle = backgroundColor;
-  ctx.fillRect(0, 0, width, height);
-
-  ctx.strokeStyle = color;
-  ctx.lineWidth = lineWidth;
-  ctx.lineJoin = 'round';
-  ctx.lineCap = 'round';
-
-  if (!analyser || !isPlaying) {
-    ctx.beginPath();
-    ctx.moveTo(0, height / 2);
-    ctx.lineTo(width, height / 2);
-    ctx.stroke();
-    ctx.restore();
-    return;
-  }
+export const midiToFrequency = (note: number) => 440 * Math.pow(2, (note - 69) / 12);
+
+// 88-key piano range shared by the piano roll and the frequency views
+export const PIANO_MIN_NOTE = 21;
+export const PIANO_MAX_NOTE = 108;
 
-  const bufferLength = analyser.frequencyBinCount;
-  const dataArray = new Uint8Array(bufferLength);
-  analyser.getByteTimeDomainData(dataArray);
-
-  ctx.beginPath();
-  const sliceWidth = width * 1.0 / bufferLength;
-  let x = 0;
-  for (let i = 0; i < bufferLength; i++) {
-    const v = dataArray[i] / 128.0;
-    const y = v * height / 2;
-    if (i === 0) ctx.moveTo(x, y);
-    else ctx.lineTo(x, y);
-    x += sliceWidth;
+// --- TRANSPORT HELPERS ---
+
+export const isLoopActive = (loop: LoopRegion) => loop.enabled && loop.end > loop.start;
+
+// Maps linear playback time onto the loop, the same way AudioBufferSourceNode.loop wraps audio
+export const wrapLoopTime = (time: number, loop: LoopRegion) => {
+  if (!isLoopActive(loop) || time < loop.end) return time;
+  const length = loop.end - loop.start;
+  return loop.start + ((time - loop.start) % length);
+};
+
+// First note-on and last note-off in audio time, once the sync offset is applied
+export const getMidiRange = (notes: NoteEvent[], offsetMs: number) => {
+  if (notes.length === 0) return null;
+  const offset = offsetMs / 1000;
+  let start = Infinity;
+  let end = -Infinity;
+  for (const n of notes) {
+    start = Math.min(start, n.startTime - offset);
+    end = Math.max(end, n.startTime + n.duration - offset);
   }
-  ctx.stroke();
-  ctx.restore();
+  return { start, end };
+};
+
+export const formatTime = (seconds: number) => {
+  const s = Math.max(0, seconds);
+  const m = Math.floor(s / 60);
+  return `${m}:${(s - m * 60).toFixed(1).padStart(4, '0')}`;
 };
 
+// --- NOTE NAMES ---
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+export const getNoteName = (note: number) => `${NOTE_NAMES[((note % 12) + 12) % 12]}${Math.floor(note / 12) - 1}`;
+
 // --- Color Helpers ---
 
 export const getHexLuminance = (hex: string) => {
@@ -218,95 +393,15 @@ export const hexToRgb = (hex: string) => {
   } : null;
 };
 
-const rgbToHex = (r: number, g: number, b: number) => 
+export const rgbToHex = (r: number, g: number, b: number) => 
   '#' + [r, g, b].map(x => Math.min(255, Math.max(0, Math.round(x))).toString(16).padStart(2, '0')).join('');
 
-const adjustColor = (hex: string, brightness: number, contrast: number) => {
-  const rgb = hexToRgb(hex);
-  if (!rgb) return hex;
-
-  const bFactor = (brightness - 100) * 1.5;
-  const cFactor = (contrast / 100);
-
-  const adjust = (val: number) => {
-    let v = (val - 128) * cFactor + 128;
-    v = v + bFactor;
-    return v;
-  };
-
-  return rgbToHex(adjust(rgb.r), adjust(rgb.g), adjust(rgb.b));
-};
-
-export const generateThemeFromImage = async (
-  imgSrc: string | null, 
-  brightness: number = 100, 
-  contrast: number = 100
-): Promise<ThemePalette> => {
-  if (!imgSrc) return DEFAULT_THEME;
-
-  try {
-    const data = await getPixelData(imgSrc);
-    const colorCounts: { [key: string]: number } = {};
-    let maxCount = 0;
-    let dominantColor = { r: 0, g: 0, b: 0 };
-
-    for (let i = 0; i < data.length; i += 4) {
-      const r = Math.round(data[i] / 10) * 10;
-      const g = Math.round(data[i + 1] / 10) * 10;
-      const b = Math.round(data[i + 2] / 10) * 10;
-      const key = `${r},${g},${b}`;
-      colorCounts[key] = (colorCounts[key] || 0) + 1;
-      if (colorCounts[key] > maxCount) {
-        maxCount = colorCounts[key];
-        dominantColor = { r: data[i], g: data[i+1], b: data[i+2] };
-      }
-    }
-
-    const rawBgHex = rgbToHex(dominantColor.r, dominantColor.g, dominantColor.b);
-    const bgHex = adjustColor(rawBgHex, brightness, contrast);
-    
-    const potentialColors: string[] = [];
-    for (let i = 0; i < data.length; i += 100) { 
-      const hex = rgbToHex(data[i], data[i+1], data[i+2]);
-      if (!potentialColors.includes(hex)) potentialColors.push(hex);
-    }
-
-    const bgLum = getHexLuminance(bgHex);
-    const isDarkBg = bgLum < 128;
-    
-    const filteredTracks = potentialColors
-      .map(hex => adjustColor(hex, isDarkBg ? 150 : 50, contrast)) 
-      .slice(0, 5);
-
-    if (filteredTracks.length < 2) {
-      filteredTracks.push(isDarkBg ? '#ffffff' : '#000000');
-    }
-
-    return {
-      background: bgHex,
-      scope: filteredTracks[0],
-      text: filteredTracks[0],
-      tracks: filteredTracks
-    };
-  } catch (e) {
-    console.warn("Theme extraction failed", e);
-    return DEFAULT_THEME;
-  }
-};
-
-const getPixelData = (imgSrc: string): Promise<Uint8ClampedArray> => {
+export const loadImage = (imgSrc: string): Promise<HTMLImageElement> => {
   return new Promise((resolve, reject) => {
     const img = new Image();
     img.crossOrigin = "Anonymous";
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      const ctx = canvas.getContext('2d');
-      if (!ctx) { reject('No context'); return; }
-      canvas.width = 50; canvas.height = 50;
-      ctx.drawImage(img, 0, 0, 50, 50);
-      resolve(ctx.getImageData(0, 0, 50, 50).data);
-    };
+    img.onload = () => resolve(img);
     img.onerror = reject;
     img.src = imgSrc;
   });
-};
\ No newline at end of file
+};
@@ -0,0 +1,96 @@
+import {
+  Output,
+  BufferTarget,
+  Mp4OutputFormat,
+  WebMOutputFormat,
+  CanvasSource,
+  AudioBufferSource,
+  getFirstEncodableVideoCodec,
+  getFirstEncodableAudioCodec,
+  QUALITY_HIGH
+} from 'mediabunny';
+import { VideoExportFormat } from './types';
+import { CompositionState, drawComposition, getCompositionDuration } from './composition';
+import { getFrameSize } from './layout';
+import { loadTextFont } from './text';
+
+export interface VideoExportOptions {
+  format: VideoExportFormat;
+  fps: number;
+  onProgress?: (progress: number) => void; // 0 to 1
+  signal?: AbortSignal;
+}
+
+// Renders the composition frame by frame (frame N shows currentTime = N / fps) and muxes it with the audio
+export const exportVideo = async (state: CompositionState, options: VideoExportOptions): Promise<Blob> => {
+  const { format, fps, onProgress, signal } = options;
+  const { width, height } = getFrameSize(state.settings.aspectRatio, state.settings.exportResolution);
+  const duration = getCompositionDuration(state);
+  if (duration <= 0) throw new Error('Nothing to export: load an audio or MIDI file first');
+
+  await loadTextFont(state.settings.textFont);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('No context');
+
+  const outputFormat = format === 'mp4' ? new Mp4OutputFormat() : new WebMOutputFormat();
+  const target = new BufferTarget();
+  const output = new Output({ format: outputFormat, target });
+
+  const videoCodec = await getFirstEncodableVideoCodec(outputFormat.getSupportedVideoCodecs(), { width, height });
+  if (!videoCodec) throw new Error(`This browser cannot encode ${format.toUpperCase()} video`);
+  const videoSource = new CanvasSource(canvas, { codec: videoCodec, bitrate: QUALITY_HIGH });
+  output.addVideoTrack(videoSource, { frameRate: fps });
+
+  let audioSource: AudioBufferSource | null = null;
+  const { audioBuffer } = state;
+  if (audioBuffer) {
+    const audioCodec = await getFirstEncodableAudioCodec(outputFormat.getSupportedAudioCodecs(), {
+      numberOfChannels: audioBuffer.numberOfChannels,
+      sampleRate: audioBuffer.sampleRate
+    });
+    if (!audioCodec) throw new Error(`This browser cannot encode ${format.toUpperCase()} audio`);
+    audioSource = new AudioBufferSource({ codec: audioCodec, bitrate: QUALITY_HIGH });
+    output.addAudioTrack(audioSource);
+  }
+
+  await output.start();
+
+  try {
+    if (audioSource && audioBuffer) {
+      await audioSource.add(audioBuffer);
+      audioSource.close();
+    }
+
+    const totalFrames = Math.ceil(duration * fps);
+    for (let frame = 0; frame < totalFrames; frame++) {
+      if (signal?.aborted) throw new DOMException('Export cancelled', 'AbortError');
+
+      const time = frame / fps;
+      drawComposition(ctx, state, time, width, height);
+      await videoSource.add(time, 1 / fps);
+      onProgress?.((frame + 1) / totalFrames);
+    }
+
+    await output.finalize();
+  } catch (e) {
+    await output.cancel();
+    throw e;
+  }
+
+  const { buffer } = target;
+  if (!buffer) throw new Error('Export produced no data');
+  return new Blob([buffer], { type: outputFormat.mimeType });
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};